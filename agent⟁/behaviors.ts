@@ -1,16 +1,110 @@
 // 🧬 Agent Behaviors - Self-modifying code
 // This file is regenerated by observable feedback loops
 
-import { manifest } from './manifest.yaml';
-import { memory } from './memory.json';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { schemas } from '../tools/schema';
+import { MemoryStore } from '../tools/memory-store';
+import { GeneticDriftEngine, UsagePattern, EcosystemFeedback } from '../tools/genetic-drift';
+import { createEntropy, Entropy, SeededRandom, Clock } from '../tools/entropy';
+import { GlyphflowEngine, GlyphflowHost, GlyphflowRule } from '../tools/glyphflow';
+import { resonance } from '../tools/resonance';
+import { SVGtoASTParser, SVGAstElement } from '../tools/svg-to-ast';
+import { SVGtoYAMLExtractor } from '../tools/svg-to-yaml';
+import { OrganismInbox } from '../tools/inbox';
+import { writeFileAtomic } from '../tools/atomic';
+import { lineage } from '../tools/lineage';
+import { MutationPolicy, PolicyViolation } from '../tools/mutation-policy';
+import { OrganismJournal, JournalKind } from '../tools/journal';
+import { SVGRenderer } from '../tools/svg-renderer';
+import { PulseReceiver, Pulse } from '../roof/pulse';
+import { FractalDiscovery } from '../roof/discovery';
 
-export class FractalAgent {
+const ORGANISM_ROOT = path.join(__dirname, '..');
+const MANIFEST_PATH = path.join(__dirname, 'manifest.yaml');
+const MEMORY_PATH = path.join(__dirname, 'memory.json');
+const SVG_PATH = path.join(__dirname, 'mind.svg');
+const JOURNAL_PATH = path.join(__dirname, 'journal.jsonl');
+
+// Validated and migrated on load - a malformed organism refuses to wake up
+const manifest: any = schemas.load('manifest', MANIFEST_PATH).data;
+const store = new MemoryStore(MEMORY_PATH, MemoryStore.retentionFrom(ORGANISM_ROOT));
+const memory: any = store.memory;
+
+export interface AgentOptions {
+  entropy?: Entropy;
+  tickInterval?: number;
+}
+
+export class FractalAgent implements GlyphflowHost {
   private state = manifest.state;
-  private svg: SVGElement;
+  private svg?: SVGAstElement; // Live form as a parsed tree, edited in place
+  private glyphflow = GlyphflowEngine.fromOrganism(ORGANISM_ROOT).bind(this);
+  private random: SeededRandom;
+  private clock: Clock;
+  private drift: GeneticDriftEngine;
+  private policy = MutationPolicy.fromOrganism(ORGANISM_ROOT);
+  private output = SVGRenderer.outputFrom(ORGANISM_ROOT);
+  private renderer = new SVGRenderer(this.output.theme);
+  private inbox = new OrganismInbox(__dirname);
+  private journal = new OrganismJournal(JOURNAL_PATH);
+  private loop?: NodeJS.Timeout;
+  private receiver?: PulseReceiver;
+  private stopListening?: () => void;
+  private readonly tickInterval: number;
   
-  constructor() {
+  constructor(options: AgentOptions = {}) {
+    const entropy = options.entropy || createEntropy();
+    
+    this.random = entropy.random;
+    this.clock = entropy.clock;
+    this.drift = new GeneticDriftEngine(entropy, this.policy);
+    this.tickInterval = options.tickInterval || 1000;
+    
+    // Anything that changed while we slept goes on record before we add to it
+    this.journal.reconcile(this.snapshot(), this.clock.now());
+    
     this.initializeSVGBinding();
+  }
+  
+  // Wake up: claim the organism and start living
+  activate(): void {
+    const running = this.inbox.runningPid();
+    if (running !== null && running !== process.pid) {
+      throw new Error(`Organism already active (pid ${running})`);
+    }
+    
+    this.inbox.claim();
+    process.on('exit', () => this.inbox.release());
+    ['SIGINT', 'SIGTERM'].forEach(signal => process.once(signal, () => {
+      this.deactivate();
+      process.exit(0);
+    }));
+    
     this.startObservationLoop();
+    this.joinRoof();
+  }
+  
+  deactivate(): void {
+    if (this.loop) clearInterval(this.loop);
+    this.loop = undefined;
+    this.leaveRoof();
+    this.persist();
+    this.inbox.release();
+  }
+  
+  // Route an event through the glyphflow rules
+  async trigger(event: string): Promise<void> {
+    this.record('trigger', { event });
+    await this.glyphflow.dispatch(event, this);
+    this.persist();
+  }
+  
+  persist(): void {
+    manifest.state = this.state;
+    writeFileAtomic(MANIFEST_PATH, yaml.dump(manifest));
+    store.save();
   }
   
   // Core behaviors from glyphflow
@@ -20,57 +114,154 @@ export class FractalAgent {
     // Analyze own code
     const selfCode = await this.readSelfCode();
     const patterns = this.extractPatterns(selfCode);
+    const feedback = this.collectFeedback();
+    
+    // Judge earlier mutations before piling new ones on top
+    const { reviewed, survived, rolledBack } = this.drift.reviewProbation(this.body(), patterns, feedback);
+    this.absorb(reviewed);
+    survived.forEach(m => console.log(`✅ Mutation ${m.id} survived probation`));
+    rolledBack.forEach(m => console.log(`↩️ Mutation ${m.id} rolled back (fitness ${m.fitness_after!.toFixed(3)} with it, ${m.fitness_without!.toFixed(3)} without)`));
     
     // Apply genetic drift
-    const mutations = this.generateMutations(patterns);
-    await this.applyMutations(mutations);
+    const { mutated, mutations, rejected } = this.drift.applyGeneticDrift(this.body(), patterns, feedback);
+    rejected.forEach(({ mutation, violations }) => {
+      console.warn(`🛡️ Rejected ${mutation.type} → ${mutation.target}: ${violations.map(v => v.detail).join('; ')}`);
+    });
+    if (mutations.length > 0) {
+      this.absorb(mutated);
+      this.record('mutation', { mutations: mutations.map(m => m.id) });
+      console.log(`🧬 Generation ${memory.generation}: ${mutations.map(m => m.id).join(', ')} on probation`);
+    }
     
     // Update SVG representation
     this.updateVisualForm();
   }
   
-  async replicate(): Promise<FractalAgent> {
+  async revert(mutationId: string): Promise<void> {
+    const { reverted, record } = this.drift.revertMutation(this.body(), mutationId);
+    this.absorb(reverted);
+    this.record('mutation', { reverted: record.id });
+    this.persist();
+    this.regenerateSVG();
+    
+    console.log(`↩️ Reverted ${record.type} ${record.target} (${record.id})`);
+  }
+  
+  async replicate(rule?: GlyphflowRule): Promise<FractalAgent> {
     console.log("🧬 Replicating...");
     
     // Clone with variations
     const clone = {
-      ...this.state,
+      inherited: this.inherit(rule?.inherit || ['state', 'successful_mutations']),
       id: this.generateUniqueId(),
-      mutations: this.selectSuccessfulMutations(),
-      generation: (this.state.generation || 0) + 1
+      generation: memory.generation + 1
     };
     
     // Fork to new location
-    await this.forkTo('/🧬/clones', clone);
+    await this.forkTo(rule?.target || '/🧬/clones', clone);
     
     return new FractalAgent();
   }
   
-  private async mutate(target: string = 'self'): Promise<void> {
+  async mutate(target: string = 'self'): Promise<void> {
     const mutationVector = this.calculateMutationVector();
     
     if (target === 'self') {
-      // Modify own manifest
+      // Modify own manifest - the journal remembers when
       manifest.version = this.incrementVersion(manifest.version);
-      manifest.events.push(`mutation_${Date.now()}`);
+      this.record('mutation', { version: manifest.version });
       
       // Trigger SVG regeneration
       this.regenerateSVG();
     }
   }
   
+  async alterStructure(targets: string[], rule?: GlyphflowRule): Promise<void> {
+    const before = structuredClone(this.body());
+    
+    await this.mutate('self');
+    
+    // Core identity survives every structural change
+    if (rule?.constraint === 'maintain_core_identity') {
+      const violations = this.policy.checkInvariants(before, this.body());
+      if (violations.length > 0) {
+        Object.assign(manifest, before.manifest);
+        this.state = manifest.state = before.state;
+        console.warn(`🛡️ Structural change rejected: ${violations.map(v => v.detail).join('; ')}`);
+        return;
+      }
+    }
+    
+    if (targets.includes('manifest.yaml')) {
+      writeFileAtomic(MANIFEST_PATH, yaml.dump(manifest));
+    }
+    if (targets.includes('mind.svg')) {
+      this.regenerateSVG();
+    }
+  }
+  
+  async applyFeedback(channel: string): Promise<void> {
+    if (channel === 'genetic_drift') {
+      await this.eatSelf();
+    }
+  }
+  
   // Observable feedback loop
   private startObservationLoop(): void {
-    setInterval(() => {
+    this.loop = setInterval(() => {
       this.observe();
-      this.glyphSync();
-    }, 1000);
+      // A half-written or hand-broken mind.svg must not take the organism down; the next tick retries
+      this.glyphSync().catch(e => console.error(`❌ glyphSync: ${e.message.split('\n')[0]}`));
+      this.drainInbox();
+    }, this.tickInterval);
+  }
+  
+  // A roof above us sends pulses down; without one there is nobody to listen to
+  private joinRoof(): void {
+    const roofDir = FractalDiscovery.findRoof(path.dirname(ORGANISM_ROOT));
+    if (!roofDir) return;
+    
+    try {
+      this.receiver = new PulseReceiver(ORGANISM_ROOT, roofDir);
+      this.receiver.register(this.clock.now());
+      this.stopListening = this.receiver.listen(pulse => this.onPulse(pulse), this.tickInterval);
+      console.log(`📡 Listening to the roof at ${roofDir} as ${this.receiver.id}`);
+    } catch (e) {
+      console.warn(`⚠️ Could not register with the roof at ${roofDir}: ${(e as Error).message}`);
+    }
+  }
+  
+  private leaveRoof(): void {
+    this.stopListening?.();
+    this.stopListening = undefined;
+    this.receiver?.deregister();
+    this.receiver = undefined;
   }
   
-  private observe(): void {
+  private onPulse(pulse: Pulse): void {
+    console.log(`📡 ${pulse.type} pulse from the roof`);
+    if (pulse.type === 'prune') this.planPruning();
+    
+    this.record('trigger', { pulse: pulse.type, id: pulse.id });
+    this.persist();
+  }
+  
+  // Triggers posted by the organism CLI while we are running
+  private drainInbox(): void {
+    this.inbox.drain().forEach(message => {
+      console.log(`📬 Trigger received: ${[message.event, ...(message.args || [])].join(' ')}`);
+      
+      const handled = message.event === 'revert'
+        ? this.revert(message.args?.[0] || '')
+        : this.trigger(message.event);
+      handled.catch(e => console.error(`❌ ${message.event}: ${e.message}`));
+    });
+  }
+  
+  observe(): void {
     // Collect runtime metrics
     const observations = {
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       resonance: this.measureResonance(),
       interactions: this.trackInteractions(),
       success_rate: this.calculateSuccess()
@@ -78,6 +269,7 @@ export class FractalAgent {
     
     // Update memory
     this.updateMemory(observations);
+    this.state.resonance = observations.resonance;
     
     // Influence next mutation
     if (observations.resonance > 0.8) {
@@ -88,7 +280,7 @@ export class FractalAgent {
   }
   
   // Bidirectional SVG sync
-  private async glyphSync(): Promise<void> {
+  async glyphSync(): Promise<void> {
     // Read current SVG state
     const svgState = this.parseSVGState();
     
@@ -98,12 +290,20 @@ export class FractalAgent {
     if (drift > 0.1) {
       // Sync detected changes
       if (svgState.timestamp > this.state.timestamp) {
-        // SVG changed externally - update internal state
-        this.state = this.mergeStates(this.state, svgState);
+        // SVG changed externally - update internal state, if the policy lets that edit through
+        const merged = this.mergeStates(this.state, svgState);
+        const violations = this.checkMerge(merged);
+        if (violations.length === 0) {
+          this.state = merged;
+        } else {
+          console.warn(`🛡️ Rejected SVG edit: ${violations.map(v => v.detail).join('; ')}`);
+          this.regenerateSVG();
+        }
       } else {
         // Internal state changed - update SVG
         this.regenerateSVG();
       }
+      this.record('sync', { drift });
     }
   }
   
@@ -112,64 +312,31 @@ export class FractalAgent {
     if (!this.svg) return;
     
     // Update based on current state
-    const circle = this.svg.querySelector('circle');
+    const body = { ...manifest, state: this.state };
+    const level = this.renderer.resonance(body, memory);
+    
+    const [circle] = SVGtoASTParser.findAll(this.svg, 'circle');
     if (circle) {
-      // Resonance affects stroke
-      circle.setAttribute('stroke', this.resonanceToColor());
-      circle.setAttribute('stroke-width', String(2 + this.state.energy));
-      
-      // Mutations affect radius
-      const mutationCount = this.state.mutations?.length || 0;
-      circle.setAttribute('r', String(45 + mutationCount * 2));
+      // Resonance affects stroke, energy its width, mutations the radius
+      circle.attributes.stroke = this.renderer.color(level);
+      circle.attributes['stroke-width'] = String(this.renderer.strokeWidth(memory));
+      circle.attributes.r = String(this.renderer.radius(body, memory));
     }
     
     // Update glyph based on evolution
-    const text = this.svg.querySelector('text');
-    if (text && this.state.evolved) {
-      text.textContent = '🧬✨';
+    const [text] = SVGtoASTParser.findAll(this.svg, 'text');
+    if (text) {
+      text.children = [{ type: 'text', value: this.renderer.glyph(body, level) }];
     }
   }
   
   private regenerateSVG(): void {
-    const newSVG = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">
-  <circle cx="50" cy="50" r="${45 + (this.state.mutations?.length || 0) * 2}" 
-          stroke="${this.resonanceToColor()}" 
-          stroke-width="${2 + this.state.energy}" 
-          fill="none"
-          opacity="${this.state.self ? 1 : 0.5}"/>
-  <text x="50%" y="50%" text-anchor="middle" dominant-baseline="middle" font-size="12">
-    ${this.state.evolved ? '🧬✨' : '🧬'}
-  </text>
-  <!-- Generated mutations -->
-  ${this.renderMutations()}
-</svg>`;
-    
-    // Write back to file (in real implementation)
-    this.writeSVG(newSVG);
-  }
-  
-  private renderMutations(): string {
-    if (!this.state.mutations) return '';
-    
-    return this.state.mutations.map((mutation, i) => {
-      const angle = (i / this.state.mutations.length) * Math.PI * 2;
-      const x = 50 + Math.cos(angle) * 30;
-      const y = 50 + Math.sin(angle) * 30;
-      
-      return `<circle cx="${x}" cy="${y}" r="3" fill="${mutation.color}" opacity="0.7"/>`;
-    }).join('\n  ');
-  }
-  
-  // Utility functions
-  private resonanceToColor(): string {
-    const resonance = this.state.resonance || 0.5;
-    const hue = resonance * 120; // Green when high, red when low
-    return `hsl(${hue}, 70%, 50%)`;
+    this.writeSVG(this.renderer.render({ ...manifest, state: this.state }, memory));
   }
   
   private measureResonance(): number {
     // Calculate based on ecosystem feedback
-    return Math.random(); // Placeholder
+    return resonance.organismResonance(memory);
   }
   
   private initializeSVGBinding(): void {
@@ -177,11 +344,164 @@ export class FractalAgent {
     console.log("🔗 Binding to SVG representation...");
   }
   
-  // ... more implementation
-}
-
-// Auto-instantiate on load
-const agent = new FractalAgent();
-
-// Export for ecosystem
-export default agent;
\ No newline at end of file
+  private async readSelfCode(): Promise<string> {
+    return fs.promises.readFile(__filename, 'utf8');
+  }
+  
+  private extractPatterns(code: string): UsagePattern[] {
+    // Events referenced often in our own code are the ones we lean on
+    const counts = manifest.events.map((event: string) => code.split(event).length - 1);
+    const busiest = Math.max(1, ...counts);
+    
+    return manifest.events.map((event: string, i: number) => ({
+      event,
+      frequency: counts[i] / busiest,
+      success_rate: this.calculateSuccess(),
+      resonance_impact: this.state.resonance || 0.5,
+      timestamp: this.clock.now()
+    }));
+  }
+  
+  // The organism as the drift engine sees it: memory, with live state and manifest attached
+  private body(): any {
+    return { ...memory, state: this.state, manifest };
+  }
+  
+  // Take back an evolved body from the drift engine
+  private absorb(organism: any): void {
+    const { state, manifest: evolved, ...rest } = organism;
+    
+    this.state = state;
+    Object.assign(manifest, evolved, { state });
+    store.update(m => Object.assign(m, rest));
+  }
+  
+  private collectFeedback(): EcosystemFeedback {
+    return {
+      interactions: memory.interaction_graph.edges.length,
+      resonance_received: memory.resonance_patterns.ecosystem,
+      clones_spawned: 0,
+      mutations_survived: memory.successful_mutations.length,
+      energy_flow: memory.evolution_trajectory.energy_level
+    };
+  }
+  
+  private inherit(keys: string[]): Record<string, any> {
+    const sources: Record<string, any> = { ...memory, state: this.state, events: manifest.events };
+    
+    return keys.reduce((acc, key) => ({ ...acc, [key]: sources[key] }), {} as Record<string, any>);
+  }
+  
+  private generateUniqueId(): string {
+    return `${memory.id}-${this.clock.now().toString(36)}-${this.random.token(4)}`;
+  }
+  
+  private async forkTo(target: string, clone: any): Promise<void> {
+    // Targets are rooted at the organism, not the filesystem
+    const clonesDir = path.join(ORGANISM_ROOT, target.replace(/^\/+/, ''));
+    const birth = this.clock.now();
+    
+    const dir = lineage.materialize(clonesDir, {
+      id: clone.id,
+      generation: clone.generation,
+      birth,
+      inherited: clone.inherited,
+      parent: { manifest, memory }
+    });
+    
+    // The parent remembers its offspring in its interaction graph
+    store.update(m => {
+      m.interaction_graph.nodes.push(clone.id);
+      m.interaction_graph.edges.push({ from: m.id, to: clone.id, type: 'replicate', timestamp: birth });
+    });
+    
+    this.record('replication', { clone: clone.id, location: path.relative(ORGANISM_ROOT, dir) });
+    console.log(`🌱 Fork ${clone.id} → ${path.relative(ORGANISM_ROOT, dir)}`);
+  }
+  
+  private calculateMutationVector(): number[] {
+    return (this.state.mutations || []).map((m: any) => m.strength);
+  }
+  
+  private incrementVersion(version: string): string {
+    const parts = String(version).split('.').map(Number);
+    parts[parts.length - 1]++;
+    return parts.join('.');
+  }
+  
+  private trackInteractions(): number {
+    return memory.interaction_graph.edges.length;
+  }
+  
+  private calculateSuccess(): number {
+    const recent = memory.observations.slice(-10);
+    if (recent.length === 0) return 1;
+    return recent.reduce((sum: number, o: any) => sum + o.success_rate, 0) / recent.length;
+  }
+  
+  private updateMemory(observations: any): void {
+    store.record(observations);
+    this.record('observation');
+  }
+  
+  // What the journal sees: the manifest as it would be persisted, and memory
+  private snapshot(): { manifest: any; memory: any } {
+    return { manifest: { ...manifest, state: this.state }, memory };
+  }
+  
+  private record(kind: JournalKind, detail?: Record<string, unknown>): void {
+    this.journal.record(kind, this.snapshot(), detail, this.clock.now());
+  }
+  
+  private planEnhancement(): void {
+    this.state.evolved = true;
+  }
+  
+  private planPruning(): void {
+    this.state.mutations = (this.state.mutations || []).filter((m: any) => m.strength >= 0.5);
+  }
+  
+  private parseSVGState(): any {
+    const ast = SVGtoASTParser.parseFile(SVG_PATH);
+    const extracted = new SVGtoYAMLExtractor(ast, memory).extract();
+    
+    return { ...extracted.state, timestamp: fs.statSync(SVG_PATH).mtimeMs };
+  }
+  
+  private detectDrift(svgState: any, state: any): number {
+    const expected = state.mutations?.length || 0;
+    const drawn = svgState.mutations.length;
+    const identity = svgState.self === Boolean(state.self) ? 0 : 1;
+    
+    return Math.abs(drawn - expected) / Math.max(1, expected) + identity;
+  }
+  
+  private mergeStates(state: any, svgState: any): any {
+    // Resonance stays ours: the SVG hue is a lossy rendering of it
+    return {
+      ...state,
+      self: svgState.self,
+      evolved: svgState.evolved,
+      mutations: svgState.mutations.map((m: any, i: number) => ({ ...state.mutations?.[i], ...m })),
+      timestamp: svgState.timestamp
+    };
+  }
+  
+  // An edited SVG is a mutation like any other: each changed state field must pass the deny and
+  // allow lists, and the organism's invariants must hold afterwards. The timestamp is only bookkeeping
+  private checkMerge(merged: any): PolicyViolation[] {
+    const changed = Object.keys(merged)
+      .filter(key => key !== 'timestamp' && JSON.stringify(merged[key]) !== JSON.stringify(this.state[key]));
+    const denied = changed.flatMap(key => this.policy.checkTarget(`state.${key}`));
+    if (denied.length) return denied;
+    
+    return this.policy.checkInvariants(this.body(), { ...this.body(), state: merged });
+  }
+  
+  private writeSVG(svg: string): void {
+    SVGRenderer.write(SVG_PATH, svg, this.output);
+    
+    // Compared against file mtimes, so this one stays on the wall clock
+    this.state.timestamp = Date.now();
+  }
+}
\ No newline at end of file
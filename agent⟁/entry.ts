@@ -1 +1,8 @@
-console.log("🧬 агент активовано.");
\ No newline at end of file
+import { FractalAgent } from './behaviors';
+
+console.log("🧬 агент активовано.");
+
+const agent = new FractalAgent();
+agent.activate();
+
+export default agent;
\ No newline at end of file
@@ -3,102 +3,256 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { execSync } from 'child_process';
+import { resonance, FractalMeta } from './tools/resonance';
+import { createEntropy, Entropy, SeededRandom, Clock } from './tools/entropy';
+import { schemas, FractalRoofFile, TemporalLinkFile, FractalBuildManifest } from './tools/schema';
+import { BuildRecorder, hashContent, hashFile } from './tools/build-manifest';
+import { BuildSettings } from './tools/build-config';
+import { TimelineStore } from './tools/timeline';
+import { TemporalChain, TEMPORAL_LINK_FILE } from './tools/temporal-chain';
+
+interface BuildOptions {
+  plan?: boolean; // List what would be touched, touch nothing
+  sandbox?: string; // The build never writes above this directory
+  force?: boolean; // Rebuild levels even when their inputs are unchanged
+  config?: string; // fractal.build.yaml to use instead of the one found
+}
+
+const BUILD_INFO = 'build.fractal.json'; // Written by the build itself, so never an input
 
 class FractalBuilder {
   private depth = 0;
   private readonly MAX_DEPTH = 7; // Safety limit
+  protected readonly seed: number;
+  protected random: SeededRandom;
+  protected clock: Clock;
+  protected readonly origin = process.cwd();
+  protected readonly sandbox: string;
+  protected readonly recorder: BuildRecorder;
+  private readonly previous: FractalBuildManifest | null;
+  private readonly force: boolean;
+  private readonly settings: BuildSettings;
+  private rebuilt = 0;
+  
+  constructor(entropy: Entropy = createEntropy(), options: BuildOptions = {}) {
+    this.seed = entropy.seed;
+    this.random = entropy.random;
+    this.clock = entropy.clock;
+    this.sandbox = path.resolve(options.sandbox ?? FractalBuilder.defaultSandbox(this.origin));
+    this.recorder = new BuildRecorder(this.origin, options.plan);
+    this.previous = BuildRecorder.load(this.origin);
+    this.force = options.force ?? false;
+    this.settings = BuildSettings.locate(this.origin, __dirname, options.config);
+  }
   
-  async buildUpward(currentPath: string = process.cwd()): Promise<void> {
-    console.log(`🌀 Building at depth ${this.depth}: ${currentPath}`);
+  // The nearest roof above us, or else just the parent - never the whole way up to $HOME
+  static defaultSandbox(origin: string): string {
+    if (process.env.FRACTAL_SANDBOX) return process.env.FRACTAL_SANDBOX;
     
-    // Build current level
-    this.buildLocal(currentPath);
+    for (let dir = path.dirname(origin); ; dir = path.dirname(dir)) {
+      if (fs.existsSync(path.join(dir, '.fractal.roof'))) return dir;
+      if (path.dirname(dir) === dir) return path.dirname(origin);
+    }
+  }
+  
+  // Print the plan, or record what was touched so `clean` can take it back
+  protected finish(): void {
+    if (this.recorder.dryRun) {
+      console.log(`🗺️ Build plan (sandbox ${this.sandbox}):`);
+      this.recorder.describe().forEach(line => console.log(`  ${line}`));
+      return;
+    }
+    
+    if (!this.recorder.steps().length) return;
+    this.recorder.save(this.sandbox, this.clock.now());
+    console.log(`🧾 ${this.recorder.steps().length} paths recorded in ${BuildRecorder.manifestPath(this.origin)}`);
+  }
+  
+  async buildUpward(currentPath: string = this.origin): Promise<void> {
+    currentPath = path.resolve(currentPath);
+    if (!this.inSandbox(path.dirname(currentPath))) {
+      throw new Error(`Refusing to build above the sandbox ${this.sandbox} (from ${currentPath})`);
+    }
     
     // Calculate parent path
     const parentPath = path.join(currentPath, '..');
     const distPath = path.join(parentPath, 'dist');
+    const inputs = this.levelInputs(currentPath);
     
-    // Create dist in parent
-    if (!fs.existsSync(distPath)) {
-      fs.mkdirSync(distPath, { recursive: true });
+    if (this.unchanged(currentPath, inputs)) {
+      console.log(`⏭️ Depth ${this.depth} unchanged: ${currentPath}`);
+    } else {
+      console.log(`🌀 Building at depth ${this.depth}: ${currentPath}`);
+      const before = this.recorder.steps().length;
+      
+      // Build current level
+      this.buildLocal(currentPath);
+      
+      // Create dist in parent
+      this.recorder.mkdir(distPath);
+      
+      // Copy build artifacts upward
+      const pushed = this.copyBuildArtifacts(currentPath, distPath);
+      
+      // Add fractal metadata
+      this.injectFractalMetadata(distPath, pushed);
+      
+      this.recorder.level({
+        path: currentPath,
+        depth: this.depth,
+        inputs,
+        outputs: this.recorder.steps().slice(before).filter(step => step.action !== 'mkdir').map(step => step.path)
+      });
+      this.rebuilt++;
     }
     
-    // Copy build artifacts upward
-    this.copyBuildArtifacts(currentPath, distPath);
-    
-    // Add fractal metadata
-    this.injectFractalMetadata(distPath);
-    
     // Recursive build if not at root
     if (this.depth < this.MAX_DEPTH && !this.isRoot(parentPath)) {
       this.depth++;
       await this.buildUpward(parentPath);
-    } else {
+    } else if (this.rebuilt) {
       console.log('🏔️ Reached the roof!');
       this.createRoofManifest(parentPath);
+    } else {
+      console.log('🏔️ Reached the roof - nothing below it changed');
     }
   }
   
+  // One hash over everything a level pushes upward, except what the build generates there itself
+  private levelInputs(dir: string): string {
+    const parts = this.settings.artifactsIn(dir)
+      .filter(artifact => artifact !== BUILD_INFO)
+      .map(artifact => `${artifact}:${hashFile(path.join(dir, artifact))}`);
+    
+    // A new naming template or transform changes the output even when the files did not
+    return hashContent([`depth:${this.depth}`, `config:${JSON.stringify(this.settings.config)}`, ...parts].join('\n'));
+  }
+  
+  // Same inputs as last time, and everything the level wrote then is still there, untouched
+  private unchanged(dir: string, inputs: string): boolean {
+    if (this.force || !this.previous) return false;
+    
+    const level = this.previous.levels?.find(l => l.path === dir && l.depth === this.depth);
+    if (!level || level.inputs !== inputs) return false;
+    
+    const records = new Map(this.previous.artifacts.map(artifact => [artifact.path, artifact.hash]));
+    return level.outputs.every(file => records.get(file) !== undefined && hashFile(file) === records.get(file));
+  }
+  
   private buildLocal(path: string): void {
     console.log('📦 Building local artifacts...');
     
     // Generate time-stamped build
     const buildInfo = {
-      timestamp: new Date().toISOString(),
+      timestamp: new Date(this.clock.now()).toISOString(),
       depth: this.depth,
       path: path,
+      seed: this.seed,
       fractal_signature: this.generateFractalSignature()
     };
     
-    fs.writeFileSync(
-      `${path}/build.fractal.json`,
+    this.recorder.write(
+      `${path}/${BUILD_INFO}`,
       JSON.stringify(buildInfo, null, 2)
     );
   }
   
-  private copyBuildArtifacts(from: string, to: string): void {
-    const artifacts = [
-      '🧬.observable.yaml',
-      'agent⟁/mind.svg',
-      'build.fractal.json'
-    ];
+  private copyBuildArtifacts(from: string, to: string): string[] {
+    const written = this.recorder.steps().filter(step => step.action !== 'mkdir').map(step => step.path);
     
-    artifacts.forEach(artifact => {
+    return this.settings.artifactsIn(from, written).map(artifact => {
       const source = path.join(from, artifact);
-      if (fs.existsSync(source)) {
-        const dest = path.join(to, `depth_${this.depth}_${artifact}`);
-        fs.copyFileSync(source, dest);
-        console.log(`⬆️ Pushed ${artifact} to parent`);
+      const name = this.settings.name(artifact, this.depth);
+      const dest = path.join(to, name);
+      this.recorder.mkdir(path.dirname(dest)); // Nested artifacts keep their folder
+      
+      // A plan has nothing to transform yet when the level itself only planned to write the file
+      const transformed = fs.existsSync(source)
+        ? this.settings.transform(artifact, source, this.depth)
+        : this.settings.transformsFor(artifact, this.depth).length ? Buffer.alloc(0) : null;
+      if (transformed) {
+        const via = this.settings.transformsFor(artifact, this.depth).map(spec => spec.use);
+        this.recorder.transform(source, dest, transformed, via);
+        console.log(`⬆️ Pushed ${artifact} to parent as ${name} (${via.join(' → ')})`);
+      } else {
+        this.recorder.copy(source, dest);
+        console.log(`⬆️ Pushed ${artifact} to parent as ${name}`);
       }
+      return name;
     });
   }
   
-  private injectFractalMetadata(distPath: string): void {
-    const metadata = {
+  private injectFractalMetadata(distPath: string, artifacts: string[]): void {
+    const metaPath = path.join(distPath, '.fractal.meta');
+    const metadata: FractalMeta = {
       '🌀': 'fractal_build',
       'depth': this.depth,
-      'pulse': Date.now(),
-      'resonance': Math.random(),
+      'pulse': this.clock.now(),
       'parent_link': '../dist',
-      'child_link': './dist'
+      'child_link': './dist',
+      'seed': this.seed,
+      'built_at': new Date(this.clock.now()).toISOString(),
+      'origin': this.origin,
+      'artifacts': artifacts
     };
+    if (this.settings.config.metadata.includes('signature')) {
+      metadata.signature = this.generateFractalSignature();
+    }
+    
+    // Resonate with the other fractals already living next to this one
+    const siblings = this.collectChildFractals(path.join(distPath, '..'))
+      .filter(file => file !== metaPath)
+      .map(file => resonance.loadMeta(file))
+      .filter((meta): meta is FractalMeta => meta !== null);
     
-    fs.writeFileSync(
-      path.join(distPath, '.fractal.meta'),
-      JSON.stringify(metadata, null, 2)
+    metadata.resonance = resonance.fractalResonance(metadata, siblings, this.organismResonance());
+    
+    // Only the fields the build config asks for
+    this.recorder.write(
+      metaPath,
+      JSON.stringify(this.settings.pickMetadata(metadata), null, 2)
     );
   }
   
+  private organismResonance(): number {
+    const memoryPath = 'agent⟁/memory.json';
+    if (!fs.existsSync(memoryPath)) return resonance.organismResonance({});
+    
+    return resonance.organismResonance(schemas.load('memory', memoryPath).data);
+  }
+  
   private isRoot(path: string): boolean {
-    // Check if we've reached system root or project boundary
+    // Check if we've reached system root, project boundary or the edge of the sandbox
     return path === '/' || 
            path === process.env.HOME ||
+           path === this.sandbox ||
            fs.existsSync(path + '/.fractal.roof');
   }
   
+  private inSandbox(dir: string): boolean {
+    const relative = path.relative(this.sandbox, dir);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+  
   private createRoofManifest(roofPath: string): void {
-    const manifest = {
+    const file = path.join(roofPath, '.fractal.roof');
+    
+    // Settings kept in the roof by hand (scan and whatever else) outlive the build; an empty roof is only a marker
+    let existing: unknown = {};
+    const content = fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : '';
+    if (content.trim()) {
+      try {
+        existing = JSON.parse(content);
+      } catch (e) {
+        throw new Error(`${file} is unreadable (${(e as Error).message}) - fix or remove it before building`);
+      }
+    }
+    if (!existing || typeof existing !== 'object' || Array.isArray(existing)) {
+      throw new Error(`${file} is not a JSON object - fix or remove it before building`);
+    }
+    
+    const manifest: FractalRoofFile = {
+      ...existing,
       '🏔️': 'roof',
       'type': 'fractal_boundary',
       'depth_reached': this.depth,
@@ -106,24 +260,24 @@ class FractalBuilder {
       'resonance_map': this.buildResonanceMap(roofPath)
     };
     
-    fs.writeFileSync(
-      path.join(roofPath, '.fractal.roof'),
+    this.recorder.write(
+      file,
       JSON.stringify(manifest, null, 2)
     );
     
     console.log('🏔️ Roof manifest created!');
   }
   
-  private generateFractalSignature(): string {
+  protected generateFractalSignature(): string {
     // Unique signature for this build pulse
-    const time = Date.now();
+    const time = this.clock.now();
     const depth = this.depth;
-    const random = Math.random().toString(36).substring(7);
+    const random = this.random.token();
     
     return `${time}-${depth}-${random}`;
   }
   
-  private collectChildFractals(path: string): string[] {
+  private collectChildFractals(root: string): string[] {
     const fractals: string[] = [];
     
     // Recursively find all .fractal.meta files
@@ -145,7 +299,7 @@ class FractalBuilder {
       }
     };
     
-    findFractals(path);
+    findFractals(root);
     return fractals;
   }
   
@@ -153,12 +307,13 @@ class FractalBuilder {
     // Calculate resonance between different levels
     const map: Record<string, number> = {};
     const fractals = this.collectChildFractals(path);
+    const metas = fractals.map(fractal => resonance.loadMeta(fractal));
     
     fractals.forEach((fractal, i) => {
       fractals.forEach((other, j) => {
-        if (i !== j) {
+        if (i !== j && metas[i] && metas[j]) {
           const key = `${i}-${j}`;
-          map[key] = Math.random(); // Placeholder for real resonance calculation
+          map[key] = resonance.metaSimilarity(metas[i]!, metas[j]!);
         }
       });
     });
@@ -169,63 +324,135 @@ class FractalBuilder {
 
 // Temporal cycle integration
 class TemporalCycleBuilder extends FractalBuilder {
+  private readonly timelines = new TimelineStore(this.origin);
+  private readonly chain = new TemporalChain(this.origin);
+  
   async buildWithTemporalLoop(): Promise<void> {
     console.log('🔄 Initiating temporal build cycle...');
     
     // Save current state
     const snapshot = this.createSnapshot();
     
-    // Build upward
-    await this.buildUpward();
-    
-    // Create temporal link
-    this.createTemporalLink(snapshot);
-    
-    // Optional: cycle back to past
-    if (process.env.TEMPORAL_CYCLE === 'true') {
-      this.injectIntoPast(snapshot);
+    try {
+      // Build upward
+      await this.buildUpward();
+      
+      // Create temporal link
+      this.createTemporalLink(snapshot);
+      
+      // Optional: cycle back to past
+      if (process.env.TEMPORAL_CYCLE === 'true') {
+        this.injectIntoPast();
+      }
+    } finally {
+      // A build that broke halfway still leaves something to clean
+      this.finish();
     }
   }
   
-  private createSnapshot(): any {
+  private createSnapshot(): TemporalLinkFile['past'] {
     return {
-      timestamp: Date.now(),
-      state: JSON.parse(fs.readFileSync('agent⟁/memory.json', 'utf8')),
+      timestamp: this.clock.now(),
+      state: schemas.load('memory', 'agent⟁/memory.json').data,
       svg: fs.readFileSync('agent⟁/mind.svg', 'utf8')
     };
   }
   
-  private createTemporalLink(snapshot: any): void {
-    // Link current build to past/future via git
-    const tempLink = {
+  private createTemporalLink(snapshot: TemporalLinkFile['past']): void {
+    // Link current build to past/future through a timeline branch the working branch never sees
+    const tempLink: TemporalLinkFile = {
       past: snapshot,
-      present: Date.now(),
+      present: this.clock.now(),
       future: null, // Will be filled by future builds
       cycle_id: this.generateFractalSignature()
     };
     
-    fs.writeFileSync('.temporal.link', JSON.stringify(tempLink, null, 2));
+    if (!this.recorder.dryRun) {
+      const name = process.env.TEMPORAL_TIMELINE || 'main';
+      try {
+        const entry = this.timelines.record(name, snapshot, `Temporal cycle ${tempLink.cycle_id}`);
+        tempLink.timeline = { name, commit: entry.commit };
+        console.log(`⏳ Snapshot recorded on timeline/${name} ${entry.commit.slice(0, 10)}`);
+      } catch (e) {
+        console.warn(`⚠️ No timeline snapshot: ${(e as Error).message.split('\n')[0]}`);
+      }
+    }
+    
+    // The chain is history, not a build artifact: kept out of the recorder so `clean` leaves it alone
+    if (this.recorder.dryRun) {
+      const head = this.chain.head();
+      console.log(`🔗 Would link ${tempLink.cycle_id}${head ? ` after ${head.cycle_id}` : ' as the first in the chain'}`);
+    } else {
+      const { link, backfilled } = this.chain.append(tempLink);
+      Object.assign(tempLink, link);
+      console.log(`🔗 Linked ${link.cycle_id}${backfilled ? ` after ${backfilled.cycle_id}` : ' as the first in the chain'}`);
+    }
     
-    // Commit with special marker
-    execSync(`git add .temporal.link && git commit -m "🔄 Temporal cycle ${tempLink.cycle_id}" || true`);
+    this.recorder.write(TEMPORAL_LINK_FILE, JSON.stringify(tempLink, null, 2));
   }
   
-  private injectIntoPast(snapshot: any): void {
-    // This would modify git history - dangerous but possible
-    console.log('⏰ Would inject into past, but safety is on');
+  // Join this stream into the past one. Timelines only ever grow - nothing already recorded is rewritten
+  private injectIntoPast(): void {
+    const from = process.env.TEMPORAL_TIMELINE || 'main';
+    const into = process.env.TEMPORAL_PAST || 'past';
     
-    // In real implementation:
-    // 1. Create orphan branch
-    // 2. Rewrite history
-    // 3. Merge temporal streams
+    if (this.recorder.dryRun) {
+      console.log(`⏰ Would merge timeline/${from} into timeline/${into}`);
+      return;
+    }
+    
+    try {
+      const { commit, kind } = this.timelines.merge(into, from);
+      console.log(`⏰ timeline/${from} → timeline/${into}: ${kind} ${commit.slice(0, 10)}`);
+    } catch (e) {
+      console.warn(`⚠️ Could not inject into the past: ${(e as Error).message.split('\n')[0]}`);
+    }
   }
 }
 
 // Execute build
 if (require.main === module) {
-  const builder = new TemporalCycleBuilder();
+  const args = process.argv.slice(2);
+  const flag = (name: string) => {
+    const i = args.indexOf(`--${name}`);
+    return i >= 0 ? args.splice(i, 2)[1] : undefined;
+  };
+  const sandbox = flag('sandbox');
+  const config = flag('config');
+  const plan = args.includes('--plan');
+  const force = args.includes('--force');
+  const [command] = args.filter(arg => !arg.startsWith('--'));
   
-  builder.buildWithTemporalLoop()
-    .then(() => console.log('✨ Fractal build complete!'))
-    .catch(console.error);
+  if (command === 'verify') {
+    try {
+      const findings = BuildRecorder.verify(process.cwd());
+      const problems = findings.filter(finding => finding.status !== 'ok');
+      
+      problems.forEach(({ path, status, detail }) => console.log(`⚠️ ${status.padEnd(10)} ${path}${detail ? ` (${detail})` : ''}`));
+      console.log(`${problems.length ? '❌' : '✅'} ${findings.length - problems.length} of ${findings.length} copies match their build`);
+      if (problems.length) process.exit(1);
+    } catch (e) {
+      console.error(`❌ ${(e as Error).message}`);
+      process.exit(1);
+    }
+  } else if (command === 'clean') {
+    try {
+      const { removed, kept } = BuildRecorder.clean(process.cwd(), plan);
+      removed.forEach(file => console.log(`${plan ? '   would remove' : '🧹 removed'} ${file}`));
+      kept.forEach(({ path, reason }) => console.log(`   kept ${path} (${reason})`));
+      console.log(plan ? `🗺️ ${removed.length} build artifacts would be removed` : `✨ ${removed.length} build artifacts removed`);
+    } catch (e) {
+      console.error(`❌ ${(e as Error).message}`);
+      process.exit(1);
+    }
+  } else {
+    // Built inside the chain, so a broken fractal.build.yaml is reported like any other failure
+    Promise.resolve()
+      .then(() => new TemporalCycleBuilder(createEntropy(), { plan, sandbox, force, config }).buildWithTemporalLoop())
+      .then(() => console.log(plan ? '🗺️ Nothing was written' : '✨ Fractal build complete!'))
+      .catch(e => {
+        console.error(`❌ ${(e as Error).message}`);
+        process.exit(1);
+      });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,187 @@
+// 🔭 Fractal Discovery
+// Finds every .fractal.meta below a roof, rereading only the directories that changed
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { schemas, FractalMetaFile, FractalRoofFile } from '../tools/schema';
+
+export interface FractalChild {
+  path: string; // Directory relative to the roof
+  depth: number; // Directories below the roof
+  signature: FractalMetaFile;
+}
+
+export interface MetaDiff {
+  key: string;
+  before: unknown;
+  after: unknown;
+}
+
+export type FractalChange =
+  | { type: 'added'; fractal: FractalChild }
+  | { type: 'updated'; fractal: FractalChild; previous: FractalChild; diff: MetaDiff[] }
+  | { type: 'removed'; fractal: FractalChild };
+
+export interface DiscoveryOptions {
+  maxDepth?: number;
+  ignore?: string[]; // Directory names never descended into
+}
+
+interface DirEntry {
+  mtimeMs: number;
+  subdirs: string[];
+  hasMeta: boolean;
+}
+
+interface MetaEntry {
+  mtimeMs: number;
+  size: number;
+  child: FractalChild | null; // null while the file fails validation
+}
+
+export const ROOF_ANCHOR = '.fractal.roof';
+const META_FILE = '.fractal.meta';
+const DEFAULT_IGNORE = ['node_modules', '.git'];
+
+export class FractalDiscovery {
+  private dirs = new Map<string, DirEntry>();
+  private metas = new Map<string, MetaEntry>();
+  private known = new Map<string, FractalChild>();
+  private readonly maxDepth: number;
+  private readonly ignore: string[];
+  
+  constructor(readonly roofDir: string, options: DiscoveryOptions = {}) {
+    const scan = FractalDiscovery.scanConfig(roofDir);
+    
+    this.maxDepth = options.maxDepth ?? scan.max_depth ?? 7;
+    this.ignore = options.ignore ?? scan.ignore ?? DEFAULT_IGNORE;
+  }
+  
+  // Nearest directory at or above start that holds a .fractal.roof
+  static findRoof(start: string): string | null {
+    let dir = path.resolve(start);
+    
+    while (true) {
+      if (fs.existsSync(path.join(dir, ROOF_ANCHOR))) return dir;
+      const parent = path.dirname(dir);
+      if (parent === dir) return null;
+      dir = parent;
+    }
+  }
+  
+  children(): FractalChild[] {
+    return [...this.known.values()].sort((a, b) => a.depth - b.depth || a.path.localeCompare(b.path));
+  }
+  
+  // Walk the subtree and report what appeared, changed or vanished since the last scan
+  scan(): FractalChange[] {
+    const found = new Map<string, FractalChild>();
+    const visited = new Set<string>();
+    
+    this.visit(this.roofDir, 0, found, visited);
+    
+    // Directories that are gone take their cache entries with them
+    [...this.dirs.keys()].filter(dir => !visited.has(dir)).forEach(dir => {
+      this.dirs.delete(dir);
+      this.metas.delete(path.join(dir, META_FILE));
+    });
+    
+    const changes: FractalChange[] = [];
+    
+    found.forEach((fractal, key) => {
+      const previous = this.known.get(key);
+      if (!previous) {
+        changes.push({ type: 'added', fractal });
+        return;
+      }
+      if (previous === fractal) return;
+      
+      const diff = diffMeta(previous.signature, fractal.signature);
+      if (diff.length) changes.push({ type: 'updated', fractal, previous, diff });
+    });
+    
+    this.known.forEach((fractal, key) => {
+      if (!found.has(key)) changes.push({ type: 'removed', fractal });
+    });
+    
+    this.known = found;
+    return changes;
+  }
+  
+  private visit(dir: string, depth: number, found: Map<string, FractalChild>, visited: Set<string>): void {
+    const stat = fs.statSync(dir, { throwIfNoEntry: false });
+    if (!stat?.isDirectory()) return;
+    visited.add(dir);
+    
+    // A directory's mtime only moves when entries come or go, so its listing can be reused until then
+    let entry = this.dirs.get(dir);
+    if (!entry || entry.mtimeMs !== stat.mtimeMs) {
+      entry = this.list(dir, stat.mtimeMs);
+      this.dirs.set(dir, entry);
+    }
+    
+    if (entry.hasMeta && depth > 0) {
+      const child = this.readMeta(dir, depth);
+      if (child) found.set(child.path, child);
+    }
+    
+    if (depth >= this.maxDepth) return;
+    entry.subdirs.forEach(name => this.visit(path.join(dir, name), depth + 1, found, visited));
+  }
+  
+  private list(dir: string, mtimeMs: number): DirEntry {
+    try {
+      const entries = fs.readdirSync(dir, { withFileTypes: true });
+      return {
+        mtimeMs,
+        subdirs: entries
+          .filter(e => e.isDirectory() && !e.name.startsWith('.') && !this.ignore.includes(e.name))
+          .map(e => e.name),
+        hasMeta: entries.some(e => e.isFile() && e.name === META_FILE)
+      };
+    } catch {
+      return { mtimeMs, subdirs: [], hasMeta: false }; // Unreadable directories hold nothing we can see
+    }
+  }
+  
+  // Metadata is rewritten in place, which the directory mtime does not notice - so stat the file itself
+  private readMeta(dir: string, depth: number): FractalChild | null {
+    const file = path.join(dir, META_FILE);
+    const stat = fs.statSync(file, { throwIfNoEntry: false });
+    if (!stat) return null;
+    
+    const cached = this.metas.get(file);
+    if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) return cached.child;
+    
+    let child: FractalChild | null = null;
+    try {
+      const signature = schemas.load('fractalMeta', file).data;
+      child = { path: path.relative(this.roofDir, dir), depth, signature };
+    } catch (e) {
+      console.warn(`⚠️ Ignoring fractal at ${path.relative(this.roofDir, dir)}: ${(e as Error).message}`);
+    }
+    
+    this.metas.set(file, { mtimeMs: stat.mtimeMs, size: stat.size, child });
+    return child;
+  }
+  
+  private static scanConfig(roofDir: string): NonNullable<FractalRoofFile['scan']> {
+    const anchor = path.join(roofDir, ROOF_ANCHOR);
+    if (!fs.existsSync(anchor)) return {};
+    
+    try {
+      return schemas.load('fractalRoof', anchor).data.scan || {};
+    } catch (e) {
+      console.warn(`⚠️ Ignoring scan settings in ${anchor}: ${(e as Error).message}`);
+      return {};
+    }
+  }
+}
+
+function diffMeta(before: FractalMetaFile, after: FractalMetaFile): MetaDiff[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  
+  return [...keys]
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map(key => ({ key, before: before[key], after: after[key] }));
+}
\ No newline at end of file
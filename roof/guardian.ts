@@ -1,131 +1,88 @@
 // 🏔️ Roof Guardian - watches from above
 // Inverse of root - manages downward, not upward
 
-import { Observable, interval, merge } from 'rxjs';
-import { map, filter, scan } from 'rxjs/operators';
+import { Observable, interval, from } from 'rxjs';
+import { map, filter, share, concatMap } from 'rxjs/operators';
+import { resonance } from '../tools/resonance';
+import { FractalDiscovery, FractalChild, FractalChange, DiscoveryOptions } from './discovery';
+import { PulseDispatcher, DispatcherOptions, PulseType, Delivery } from './pulse';
+
+export interface RoofObservation {
+  current: FractalChild[];
+  changes: FractalChange[];
+  resonance: number;
+}
 
 export class RoofGuardian {
   private readonly watchInterval = 1000;
-  private childFractals: Map<string, any> = new Map();
+  private readonly deliveryRetention = 60000; // Settled deliveries are forgotten after a minute
+  private readonly pulses: PulseDispatcher;
+  private readonly discovery: FractalDiscovery;
+  private readonly observations: Observable<RoofObservation>;
   
-  // Watch all fractals below
-  observe(): Observable<any> {
-    return interval(this.watchInterval).pipe(
-      map(() => this.scanChildren()),
-      filter(children => children.length > 0),
-      scan((acc, children) => {
-        // Track changes over time
-        return {
-          ...acc,
-          current: children,
-          changes: this.detectChanges(acc.current, children),
-          resonance: this.calculateResonance(children)
-        };
-      }, { current: [], changes: [], resonance: 0 })
-    );
-  }
-  
-  private scanChildren(): any[] {
-    // Scan downward through directory structure
-    const children = [];
-    
-    // Look for fractals in ../dist, ../../dist, etc
-    for (let depth = 1; depth <= 7; depth++) {
-      const path = '../'.repeat(depth) + 'dist';
-      if (this.isFractalPresent(path)) {
-        children.push({
-          path,
-          depth,
-          signature: this.readFractalSignature(path)
-        });
-      }
-    }
+  constructor(
+    readonly roofDir: string = FractalDiscovery.findRoof(process.cwd()) ?? process.cwd(),
+    options: DispatcherOptions & DiscoveryOptions = {}
+  ) {
+    this.pulses = new PulseDispatcher(roofDir, options);
+    this.discovery = new FractalDiscovery(roofDir, options);
     
-    return children;
+    // One scan per tick, however many subscribers - a second scan would see no changes
+    this.observations = interval(this.watchInterval).pipe(
+      map(() => {
+        this.followUp();
+        const changes = this.discovery.scan();
+        const current = this.discovery.children();
+        
+        return { current, changes, resonance: this.calculateResonance(current) };
+      }),
+      filter(state => state.current.length > 0 || state.changes.length > 0),
+      share()
+    );
   }
   
-  private isFractalPresent(path: string): boolean {
-    // Check if fractal artifacts exist
-    try {
-      const fs = require('fs');
-      return fs.existsSync(`${path}/.fractal.meta`);
-    } catch {
-      return false;
-    }
+  // Watch all fractals below
+  observe(): Observable<RoofObservation> {
+    return this.observations;
   }
   
-  private readFractalSignature(path: string): any {
-    try {
-      const fs = require('fs');
-      return JSON.parse(fs.readFileSync(`${path}/.fractal.meta`, 'utf8'));
-    } catch {
-      return null;
-    }
+  // What appeared, changed or vanished below, one change at a time
+  changes(): Observable<FractalChange> {
+    return this.observations.pipe(concatMap(state => from(state.changes)));
   }
   
-  private detectChanges(prev: any[], current: any[]): any[] {
-    // Detect what changed between observations
-    const changes = [];
-    
-    current.forEach(child => {
-      const previous = prev.find(p => p.path === child.path);
-      if (!previous || previous.signature?.pulse !== child.signature?.pulse) {
-        changes.push({
-          type: previous ? 'update' : 'new',
-          fractal: child
-        });
-      }
-    });
-    
-    return changes;
+  // The fractals found by the latest tick, without waiting for the next one
+  children(): { current: FractalChild[]; resonance: number } {
+    const current = this.discovery.children();
+    return { current, resonance: this.calculateResonance(current) };
   }
   
-  private calculateResonance(children: any[]): number {
-    if (children.length === 0) return 0;
-    
-    // Calculate harmonic resonance between levels
-    let resonance = 0;
-    
-    children.forEach((child, i) => {
-      children.forEach((other, j) => {
-        if (i < j) {
-          const harmony = this.harmonicRatio(child.depth, other.depth);
-          resonance += harmony;
-        }
-      });
-    });
-    
-    return resonance / (children.length * (children.length - 1) / 2);
+  private calculateResonance(children: FractalChild[]): number {
+    // Harmonic resonance between the fractals below
+    return resonance.ecosystemResonance(children.map(child => child.signature)) ?? 0;
   }
   
-  private harmonicRatio(d1: number, d2: number): number {
-    // Musical harmonics for fractal depths
-    const ratio = d1 / d2;
-    
-    // Perfect harmonics
-    if (ratio === 1/2 || ratio === 2/1) return 1.0;  // Octave
-    if (ratio === 2/3 || ratio === 3/2) return 0.9;  // Fifth
-    if (ratio === 3/4 || ratio === 4/3) return 0.8;  // Fourth
-    
-    // Dissonance
-    return 0.5 - Math.abs(0.5 - (ratio % 1));
+  // Send pulses downward, to every child registered with this roof
+  pulse(type: PulseType, payload?: Record<string, unknown>): Delivery[] {
+    const deliveries = this.pulses.send(type, payload);
+    deliveries.forEach(d => console.log(`📡 ${type} pulse ${d.pulse.id} → ${d.child}${d.error ? ` (${d.error})` : ''}`));
+    return deliveries;
   }
   
-  // Send pulses downward
-  pulse(message: any): void {
-    this.childFractals.forEach((child, path) => {
-      this.sendPulse(path, message);
-    });
+  deliveries(): Delivery[] {
+    return this.pulses.deliveries();
   }
   
-  private sendPulse(path: string, message: any): void {
-    // Would send actual network/IPC message
-    console.log(`📡 Pulse to ${path}:`, message);
+  // Acks in, retries out, unresponsive children let go
+  private followUp(): void {
+    const { acked, retried, failed, deregistered } = this.pulses.poll();
+    
+    acked.forEach(d => console.log(`✅ ${d.child} acknowledged ${d.pulse.type} pulse ${d.pulse.id}`));
+    retried.forEach(d => console.log(`🔁 ${d.pulse.type} pulse ${d.pulse.id} → ${d.child} (attempt ${d.attempts})`));
+    failed.forEach(d => console.log(`⚠️ ${d.pulse.type} pulse ${d.pulse.id} to ${d.child} failed: ${d.error}`));
+    deregistered.forEach(id => console.log(`🍂 ${id} stopped answering and was deregistered`));
     
-    // In real implementation:
-    // - Write to shared memory
-    // - Send via named pipe
-    // - Emit through event system
+    this.pulses.prune(Date.now() - this.deliveryRetention);
   }
 }
 
@@ -135,13 +92,29 @@ export const roof = new RoofGuardian();
 // Auto-start observation
 if (require.main === module) {
   console.log('🏔️ Roof Guardian activated');
+  console.log(`👁️ Watching fractals below ${roof.roofDir}`);
+  
+  // Bless once per rise above 0.8, and not more than once a minute however resonance flickers
+  const BLESSING_COOLDOWN = 60000;
+  let blessed = false;
+  let lastBlessing = -Infinity;
   
   roof.observe().subscribe(state => {
-    console.log('👁️ Roof observation:', state);
+    state.changes.forEach(change => {
+      if (change.type === 'added') console.log(`🌱 ${change.fractal.path} appeared (depth ${change.fractal.depth})`);
+      if (change.type === 'removed') console.log(`🍂 ${change.fractal.path} vanished`);
+      if (change.type === 'updated') {
+        console.log(`🔄 ${change.fractal.path} changed`);
+        change.diff.forEach(d => console.log(`   ${d.key}: ${JSON.stringify(d.before)} → ${JSON.stringify(d.after)}`));
+      }
+    });
     
-    if (state.resonance > 0.8) {
+    const high = state.resonance > 0.8;
+    if (high && !blessed && Date.now() - lastBlessing >= BLESSING_COOLDOWN) {
       console.log('✨ High resonance detected! Sending blessing pulse...');
-      roof.pulse({ type: 'blessing', energy: state.resonance });
+      roof.pulse('blessing', { energy: state.resonance });
+      lastBlessing = Date.now();
     }
+    blessed = high;
   });
 }
\ No newline at end of file
@@ -0,0 +1,311 @@
+// 📡 Roof Pulses
+// Downward file mailboxes between the roof and the fractals registered below it
+//
+//   <roof>/.roof/children/<id>.json      registrations, written by children
+//   <roof>/.roof/acks/<pulse>~<id>.json  acknowledgements, written by children
+//   <child>/.pulses/<sent>-<pulse>.json  pulses, written by the roof
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from '../tools/atomic';
+
+export type PulseType = 'blessing' | 'energy' | 'prune';
+
+export const PULSE_TYPES: PulseType[] = ['blessing', 'energy', 'prune'];
+
+export interface Pulse {
+  id: string;
+  type: PulseType;
+  payload?: Record<string, unknown>;
+  sent_at: number;
+  attempt: number;
+}
+
+export interface PulseAck {
+  pulse_id: string;
+  child: string;
+  received_at: number;
+}
+
+export interface ChildRegistration {
+  id: string;
+  dir: string;
+  registered_at: number;
+}
+
+export interface Delivery {
+  pulse: Pulse;
+  child: string;
+  status: 'pending' | 'acked' | 'failed';
+  attempts: number;
+  last_attempt_at: number;
+  acked_at?: number;
+  error?: string;
+}
+
+export interface DispatcherOptions {
+  ackTimeout?: number; // How long to wait for an ack before sending again
+  maxAttempts?: number; // Sends per pulse before it counts as failed
+  maxFailures?: number; // Failed pulses in a row before a child is let go
+}
+
+const ROOF_DIR = '.roof';
+const MAILBOX_DIR = '.pulses';
+
+const registryDir = (roofDir: string) => path.join(roofDir, ROOF_DIR, 'children');
+const acksDir = (roofDir: string) => path.join(roofDir, ROOF_DIR, 'acks');
+const mailboxDir = (childDir: string) => path.join(childDir, MAILBOX_DIR);
+
+// Child ids name files in the roof's registry and ack folders, so nothing that could leave them
+export function isValidChildId(id: string): boolean {
+  return /^[\w.-]+$/.test(id) && id !== '.' && id !== '..';
+}
+
+function checkChildId(id: string): string {
+  if (!isValidChildId(id)) throw new Error(`Invalid child id ${JSON.stringify(id)} (letters, digits, _ . - only)`);
+  return id;
+}
+
+function readJSON<T>(file: string): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+  } catch {
+    return null; // Half-written or raced with a reader
+  }
+}
+
+// Roof side: sends pulses, watches for acks, retries and lets unresponsive children go
+export class PulseDispatcher {
+  private deliveryLog = new Map<string, Delivery>();
+  private failures = new Map<string, number>();
+  private sequence = 0;
+  private readonly ackTimeout: number;
+  private readonly maxAttempts: number;
+  private readonly maxFailures: number;
+  
+  constructor(private readonly roofDir: string, options: DispatcherOptions = {}) {
+    this.ackTimeout = options.ackTimeout ?? 5000;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.maxFailures = options.maxFailures ?? 3;
+  }
+  
+  register(id: string, dir: string, now: number = Date.now()): ChildRegistration {
+    const registration: ChildRegistration = { id: checkChildId(id), dir: path.resolve(dir), registered_at: now };
+    
+    fs.mkdirSync(registryDir(this.roofDir), { recursive: true });
+    writeFileAtomic(path.join(registryDir(this.roofDir), `${id}.json`), JSON.stringify(registration, null, 2));
+    return registration;
+  }
+  
+  deregister(id: string): void {
+    checkChildId(id);
+    fs.rmSync(path.join(registryDir(this.roofDir), `${id}.json`), { force: true });
+    this.failures.delete(id);
+    
+    // Nobody is listening for what is still in flight
+    this.deliveryLog.forEach(delivery => {
+      if (delivery.child === id && delivery.status === 'pending') {
+        delivery.status = 'failed';
+        delivery.error = 'deregistered';
+      }
+    });
+  }
+  
+  children(): ChildRegistration[] {
+    const dir = registryDir(this.roofDir);
+    if (!fs.existsSync(dir)) return [];
+    
+    return fs.readdirSync(dir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJSON<ChildRegistration>(path.join(dir, file)))
+      .filter((registration): registration is ChildRegistration =>
+        registration !== null && typeof registration.id === 'string' && isValidChildId(registration.id));
+  }
+  
+  // One pulse to every registered child
+  send(type: PulseType, payload?: Record<string, unknown>, now: number = Date.now()): Delivery[] {
+    if (!PULSE_TYPES.includes(type)) {
+      throw new Error(`Unknown pulse type ${type} (known: ${PULSE_TYPES.join(', ')})`);
+    }
+    
+    return this.children().map(child => {
+      const pulse: Pulse = {
+        id: `${now.toString(36)}.${(this.sequence++).toString(36)}`,
+        type,
+        ...(payload ? { payload } : {}),
+        sent_at: now,
+        attempt: 0
+      };
+      const delivery: Delivery = { pulse, child: child.id, status: 'pending', attempts: 0, last_attempt_at: now };
+      
+      this.deliveryLog.set(this.key(pulse.id, child.id), delivery);
+      this.attempt(delivery, child, now);
+      return delivery;
+    });
+  }
+  
+  // Collect acks, resend what timed out, give up on what kept timing out
+  poll(now: number = Date.now()): { acked: Delivery[]; retried: Delivery[]; failed: Delivery[]; deregistered: string[] } {
+    const acked = this.collectAcks();
+    const retried: Delivery[] = [];
+    const failed: Delivery[] = [];
+    const children = new Map(this.children().map(child => [child.id, child]));
+    
+    this.deliveryLog.forEach(delivery => {
+      if (delivery.status !== 'pending' || now - delivery.last_attempt_at < this.ackTimeout) return;
+      
+      const child = children.get(delivery.child);
+      if (child && delivery.attempts < this.maxAttempts) {
+        this.attempt(delivery, child, now);
+        retried.push(delivery);
+        return;
+      }
+      
+      delivery.status = 'failed';
+      delivery.error = delivery.error || (child ? 'no acknowledgement' : 'child not registered');
+      failed.push(delivery);
+      this.failures.set(delivery.child, (this.failures.get(delivery.child) || 0) + 1);
+    });
+    
+    const deregistered = [...this.failures.entries()]
+      .filter(([id, count]) => count >= this.maxFailures && children.has(id))
+      .map(([id]) => id);
+    deregistered.forEach(id => this.deregister(id));
+    
+    return { acked, retried, failed, deregistered };
+  }
+  
+  deliveries(): Delivery[] {
+    return [...this.deliveryLog.values()];
+  }
+  
+  // Forget settled deliveries older than the cutoff
+  prune(before: number): void {
+    this.deliveryLog.forEach((delivery, key) => {
+      if (delivery.status !== 'pending' && delivery.last_attempt_at < before) this.deliveryLog.delete(key);
+    });
+  }
+  
+  private attempt(delivery: Delivery, child: ChildRegistration, now: number): void {
+    delivery.attempts++;
+    delivery.last_attempt_at = now;
+    delivery.pulse.attempt = delivery.attempts;
+    
+    try {
+      // The mailbox must already exist: a child that vanished should not be recreated by its roof
+      const mailbox = mailboxDir(child.dir);
+      if (!fs.existsSync(mailbox)) throw new Error(`no mailbox at ${mailbox}`);
+      
+      writeFileAtomic(path.join(mailbox, `${delivery.pulse.sent_at}-${delivery.pulse.id}.json`), JSON.stringify(delivery.pulse));
+    } catch (e) {
+      delivery.error = (e as Error).message;
+    }
+  }
+  
+  private collectAcks(): Delivery[] {
+    const dir = acksDir(this.roofDir);
+    if (!fs.existsSync(dir)) return [];
+    
+    return fs.readdirSync(dir)
+      .filter(file => file.endsWith('.json'))
+      .flatMap(file => {
+        const full = path.join(dir, file);
+        const ack = readJSON<PulseAck>(full);
+        if (!ack) return [];
+        fs.rmSync(full, { force: true });
+        
+        const delivery = this.deliveryLog.get(this.key(ack.pulse_id, ack.child));
+        if (!delivery || delivery.status === 'acked') return [];
+        
+        delivery.status = 'acked';
+        delivery.acked_at = ack.received_at;
+        delete delivery.error;
+        this.failures.delete(ack.child);
+        return [delivery];
+      });
+  }
+  
+  private key(pulseId: string, child: string): string {
+    return `${pulseId}~${child}`;
+  }
+}
+
+// Child side: registers with a roof, takes pulses out of its mailbox and acknowledges them
+export class PulseReceiver {
+  // Retries after a lost ack bring the same pulse twice; it is acked again but handled once
+  private handled = new Set<string>();
+  
+  constructor(
+    private readonly childDir: string,
+    private readonly roofDir: string,
+    readonly id: string = path.basename(path.resolve(childDir)).replace(/[^\w.-]+/g, '-')
+  ) {
+    checkChildId(id);
+  }
+  
+  register(now: number = Date.now()): ChildRegistration {
+    fs.mkdirSync(mailboxDir(this.childDir), { recursive: true });
+    return new PulseDispatcher(this.roofDir).register(this.id, this.childDir, now);
+  }
+  
+  deregister(): void {
+    new PulseDispatcher(this.roofDir).deregister(this.id);
+  }
+  
+  // Oldest first; every pulse is acknowledged, each id is returned only once
+  receive(now: number = Date.now()): Pulse[] {
+    const mailbox = mailboxDir(this.childDir);
+    if (!fs.existsSync(mailbox)) return [];
+    
+    fs.mkdirSync(acksDir(this.roofDir), { recursive: true });
+    
+    return fs.readdirSync(mailbox)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .flatMap(file => {
+        const full = path.join(mailbox, file);
+        const pulse = readJSON<Pulse>(full);
+        if (!pulse) return [];
+        fs.rmSync(full, { force: true });
+        
+        const ack: PulseAck = { pulse_id: pulse.id, child: this.id, received_at: now };
+        writeFileAtomic(path.join(acksDir(this.roofDir), `${pulse.id}~${this.id}.json`), JSON.stringify(ack));
+        
+        if (this.handled.has(pulse.id)) return [];
+        this.handled.add(pulse.id);
+        return [pulse];
+      });
+  }
+  
+  // Poll the mailbox until the returned stop function is called
+  listen(handler: (pulse: Pulse) => void, interval: number = 500): () => void {
+    const timer = setInterval(() => this.receive().forEach(handler), interval);
+    return () => clearInterval(timer);
+  }
+}
+
+// CLI usage: play a child fractal listening to its roof
+if (require.main === module) {
+  const [childDir, roofDir, id] = process.argv.slice(2);
+  
+  if (!childDir || !roofDir) {
+    console.error('Usage: ts-node pulse.ts <child dir> <roof dir> [child id]');
+    process.exit(1);
+  }
+  
+  const receiver = new PulseReceiver(childDir, roofDir, id);
+  const registration = receiver.register();
+  console.log(`📡 ${registration.id} registered with ${path.resolve(roofDir)}`);
+  
+  const stop = receiver.listen(pulse => {
+    console.log(`📡 ${pulse.type} pulse ${pulse.id} (attempt ${pulse.attempt})`, pulse.payload ?? '');
+  });
+  
+  const leave = () => {
+    stop();
+    receiver.deregister();
+    process.exit(0);
+  };
+  process.once('SIGINT', leave);
+  process.once('SIGTERM', leave);
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+// ⚛️ Atomic Writes
+// Write to a sibling temp file, fsync, then rename over the original
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export function writeFileAtomic(file: string, content: string): void {
+  const dir = path.dirname(file);
+  const temp = path.join(dir, `.${path.basename(file)}.${process.pid}.tmp`);
+  
+  const fd = fs.openSync(temp, 'w');
+  try {
+    fs.writeSync(fd, content);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  
+  try {
+    fs.renameSync(temp, file);
+  } catch (e) {
+    fs.rmSync(temp, { force: true });
+    throw e;
+  }
+  
+  // Persist the rename itself; not every platform lets us open a directory
+  try {
+    const dirFd = fs.openSync(dir, 'r');
+    fs.fsyncSync(dirFd);
+    fs.closeSync(dirFd);
+  } catch {
+    // Best effort
+  }
+}
\ No newline at end of file
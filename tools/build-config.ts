@@ -0,0 +1,250 @@
+// 🏗️ Build Config
+// What a fractal build pushes upward, what it is called up there and how it changes on the way - from fractal.build.yaml
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { schemas, BuildTransformSpec } from './schema';
+import { SVGRenderer } from './svg-renderer';
+import { globToRegExp } from './watchers';
+
+export const BUILD_CONFIG_FILE = 'fractal.build.yaml';
+
+export interface BuildConfig {
+  artifacts: string[];
+  naming: string;
+  transforms: BuildTransformSpec[];
+  metadata: string[];
+}
+
+export interface TransformInput {
+  artifact: string; // Relative to the level being built
+  source: string; // Absolute path of the original
+  depth: number;
+  content: Buffer;
+  options: Record<string, unknown>;
+}
+
+export type BuildTransform = (input: TransformInput) => string | Buffer;
+
+// Everything injectFractalMetadata knows how to fill in
+export const METADATA_FIELDS = [
+  '🌀', 'depth', 'pulse', 'resonance', 'parent_link', 'child_link',
+  'seed', 'signature', 'built_at', 'origin', 'artifacts'
+];
+
+// Without these the roof cannot read the .fractal.meta back
+export const REQUIRED_METADATA = ['🌀', 'depth', 'pulse', 'resonance', 'parent_link', 'child_link'];
+
+// What the builder did before there was a config file
+export const DEFAULT_BUILD_CONFIG: BuildConfig = {
+  artifacts: ['🧬.observable.yaml', 'agent⟁/mind.svg', 'build.fractal.json'],
+  naming: 'depth_{depth}_{path}',
+  transforms: [],
+  metadata: REQUIRED_METADATA
+};
+
+const NAMING_TOKENS = ['depth', 'path', 'dir', 'name', 'stem', 'ext'];
+const SKIPPED_DIRS = ['node_modules', 'dist'];
+
+export class BuildTransformRegistry {
+  private transforms = new Map<string, BuildTransform>();
+  
+  register(name: string, transform: BuildTransform, options: { replace?: boolean } = {}): void {
+    if (this.transforms.has(name) && !options.replace) {
+      throw new Error(`Build transform ${name} is already registered`);
+    }
+    this.transforms.set(name, transform);
+  }
+  
+  has(name: string): boolean {
+    return this.transforms.has(name);
+  }
+  
+  get(name: string): BuildTransform {
+    const transform = this.transforms.get(name);
+    if (!transform) {
+      throw new Error(`Unknown build transform ${name} (known: ${this.names().join(', ')})`);
+    }
+    return transform;
+  }
+  
+  names(): string[] {
+    return [...this.transforms.keys()];
+  }
+}
+
+export const buildTransforms = new BuildTransformRegistry();
+
+// Redraw mind.svg from the organism beside it with fewer mutations and events the higher it goes
+buildTransforms.register('svg-detail', ({ source, depth, content, options }) => {
+  const dir = path.dirname(source);
+  const manifestPath = path.join(dir, 'manifest.yaml');
+  const memoryPath = path.join(dir, 'memory.json');
+  
+  if (!fs.existsSync(manifestPath) || !fs.existsSync(memoryPath)) {
+    console.warn(`⚠️ svg-detail: no manifest.yaml and memory.json next to ${source}, copied as is`);
+    return content;
+  }
+  
+  const manifest = schemas.load('manifest', manifestPath).data;
+  const memory = schemas.load('memory', memoryPath).data;
+  const detail = typeof options.detail === 'number' ? options.detail : 0.5; // Share kept per depth
+  const keep = (count: number) => Math.floor(count * Math.pow(detail, depth));
+  const mutations = manifest.state.mutations || [];
+  
+  const reduced = {
+    ...manifest,
+    state: { ...manifest.state, mutations: mutations.slice(0, keep(mutations.length)) },
+    events: manifest.events.slice(manifest.events.length - keep(manifest.events.length))
+  };
+  
+  return new SVGRenderer(typeof options.theme === 'string' ? options.theme : 'still').render(reduced, memory);
+});
+
+// The shape of a memory without its history - enough for a roof to know how the organism is doing
+buildTransforms.register('memory-summary', ({ content, options }) => {
+  const memory = schemas.parse('memory', JSON.parse(content.toString('utf8'))).data;
+  const recent = typeof options.observations === 'number' ? options.observations : 0;
+  
+  return JSON.stringify({
+    id: memory.id,
+    generation: memory.generation,
+    birth: memory.birth,
+    resonance_patterns: memory.resonance_patterns,
+    current_state: memory.evolution_trajectory.current_state,
+    energy_level: memory.evolution_trajectory.energy_level,
+    counts: {
+      observations: memory.observations.length,
+      mutations: memory.mutation_history.length,
+      successful_mutations: memory.successful_mutations.length,
+      failed_mutations: memory.failed_mutations.length
+    },
+    ...(recent > 0 ? { observations: memory.observations.slice(-recent) } : {})
+  }, null, 2);
+});
+
+export class BuildSettings {
+  private readonly transformMatchers: Array<{ spec: BuildTransformSpec; pattern: RegExp }>;
+  
+  constructor(readonly config: BuildConfig = DEFAULT_BUILD_CONFIG, readonly source: string | null = null) {
+    const unknownFields = config.metadata.filter(field => !METADATA_FIELDS.includes(field));
+    if (unknownFields.length) {
+      throw new Error(`${this.label}: unknown metadata fields ${unknownFields.join(', ')} (known: ${METADATA_FIELDS.join(', ')})`);
+    }
+    const missing = REQUIRED_METADATA.filter(field => !config.metadata.includes(field));
+    if (missing.length) {
+      throw new Error(`${this.label}: metadata must keep ${missing.join(', ')} - the roof reads them back`);
+    }
+    
+    const unknownTokens = [...config.naming.matchAll(/\{(\w+)\}/g)].map(m => m[1]).filter(t => !NAMING_TOKENS.includes(t));
+    if (unknownTokens.length) {
+      throw new Error(`${this.label}: unknown naming tokens ${unknownTokens.join(', ')} (known: ${NAMING_TOKENS.join(', ')})`);
+    }
+    
+    config.transforms.forEach(spec => buildTransforms.get(spec.use));
+    this.transformMatchers = config.transforms.map(spec => ({ spec, pattern: globToRegExp(spec.match) }));
+  }
+  
+  // --config wins, then a fractal.build.yaml where the build starts, then one next to the builder
+  static locate(origin: string, builderDir: string, explicit?: string): BuildSettings {
+    const file = explicit ?? [origin, builderDir]
+      .map(dir => path.join(dir, BUILD_CONFIG_FILE))
+      .find(candidate => fs.existsSync(candidate));
+    
+    if (!file) return new BuildSettings();
+    
+    const loaded = schemas.load('buildConfig', file).data;
+    return new BuildSettings({
+      artifacts: loaded.artifacts ?? DEFAULT_BUILD_CONFIG.artifacts,
+      naming: loaded.naming ?? DEFAULT_BUILD_CONFIG.naming,
+      transforms: loaded.transforms ?? DEFAULT_BUILD_CONFIG.transforms,
+      metadata: loaded.metadata ?? DEFAULT_BUILD_CONFIG.metadata
+    }, path.resolve(file));
+  }
+  
+  private get label(): string {
+    return this.source ? path.basename(this.source) : 'build config';
+  }
+  
+  // Artifacts present in a level, as paths relative to it. `planned` names files the same run has
+  // already written, which under --plan are not on disk yet
+  artifactsIn(dir: string, planned: string[] = []): string[] {
+    const patterns = this.config.artifacts.map(glob => globToRegExp(glob));
+    const found = new Set<string>();
+    
+    const walk = (relative: string, level: number) => {
+      if (level > 5) return;
+      
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(path.join(dir, relative), { withFileTypes: true });
+      } catch {
+        return; // Unreadable directories hold no artifacts
+      }
+      
+      entries.forEach(entry => {
+        const child = relative ? `${relative}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          if (!entry.name.startsWith('.') && !SKIPPED_DIRS.includes(entry.name)) walk(child, level + 1);
+        } else if (patterns.some(pattern => pattern.test(child))) {
+          found.add(child);
+        }
+      });
+    };
+    
+    // Plain paths need no walk, and may even name dotfiles
+    this.config.artifacts
+      .filter(glob => !/[*?]/.test(glob) && fs.statSync(path.join(dir, glob), { throwIfNoEntry: false })?.isFile())
+      .forEach(glob => found.add(glob));
+    if (this.config.artifacts.some(glob => /[*?]/.test(glob))) walk('', 0);
+    
+    planned
+      .map(file => path.relative(dir, file).split(path.sep).join('/'))
+      .filter(child => !child.startsWith('..') && !path.isAbsolute(child))
+      .filter(child => this.config.artifacts.includes(child) || (
+        patterns.some(pattern => pattern.test(child)) &&
+        child.split('/').slice(0, -1).every(part => !part.startsWith('.') && !SKIPPED_DIRS.includes(part))))
+      .forEach(child => found.add(child));
+    
+    return [...found].sort();
+  }
+  
+  name(artifact: string, depth: number): string {
+    const ext = path.extname(artifact);
+    const dir = path.dirname(artifact);
+    const values: Record<string, string> = {
+      depth: String(depth),
+      path: artifact,
+      dir: dir === '.' ? '' : dir,
+      name: path.basename(artifact),
+      stem: path.basename(artifact, ext),
+      ext
+    };
+    
+    return this.config.naming.replace(/\{(\w+)\}/g, (_, token: string) => values[token]);
+  }
+  
+  // The transforms for this artifact at this depth, in the order they are listed
+  transformsFor(artifact: string, depth: number): BuildTransformSpec[] {
+    return this.transformMatchers
+      .filter(({ spec, pattern }) =>
+        pattern.test(artifact) &&
+        depth >= (spec.min_depth ?? 0) &&
+        depth <= (spec.max_depth ?? Infinity))
+      .map(({ spec }) => spec);
+  }
+  
+  transform(artifact: string, source: string, depth: number): Buffer | null {
+    const specs = this.transformsFor(artifact, depth);
+    if (!specs.length) return null;
+    
+    return specs.reduce<Buffer>((content, spec) => {
+      const result = buildTransforms.get(spec.use)({ artifact, source, depth, content, options: spec.options || {} });
+      return typeof result === 'string' ? Buffer.from(result) : result;
+    }, fs.readFileSync(source));
+  }
+  
+  pickMetadata<T extends Record<string, unknown>>(metadata: T): Partial<T> {
+    return Object.fromEntries(Object.entries(metadata).filter(([key]) => this.config.metadata.includes(key))) as Partial<T>;
+  }
+}
\ No newline at end of file
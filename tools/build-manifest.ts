@@ -0,0 +1,268 @@
+// 🧾 Build Manifest
+// Every directory and file a fractal build touches, so it can be previewed first, checked and undone later
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { schemas, BuildArtifactRecord, BuildLevelRecord, FractalBuildManifest } from './schema';
+
+export const BUILD_MANIFEST_FILE = '.fractal.build.json';
+
+export interface BuildStep {
+  action: 'mkdir' | 'write' | 'copy' | 'transform';
+  path: string;
+  from?: string; // Source of a copy or transform
+  existed: boolean;
+  hash?: string; // sha256 of what was (or would be) written
+  sourceHash?: string; // sha256 of the source, when a transform made it differ from what was written
+  via?: string[]; // Transforms applied on the way
+}
+
+export interface CleanResult {
+  removed: string[];
+  kept: Array<{ path: string; reason: string }>;
+}
+
+export interface VerifyFinding {
+  path: string;
+  status: 'ok' | 'missing' | 'tampered' | 'drifted' | 'unrecorded';
+  detail?: string;
+}
+
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export function hashFile(file: string): string | null {
+  return fs.existsSync(file) ? hashContent(fs.readFileSync(file)) : null;
+}
+
+export class BuildRecorder {
+  private readonly log: BuildStep[] = [];
+  private readonly levels: BuildLevelRecord[] = [];
+  
+  // With dryRun nothing is written; the steps are only collected
+  constructor(readonly origin: string, readonly dryRun: boolean = false) {}
+  
+  steps(): BuildStep[] {
+    return [...this.log];
+  }
+  
+  mkdir(dir: string): void {
+    const existed = fs.existsSync(dir);
+    if (existed || this.log.some(step => step.action === 'mkdir' && step.path === path.resolve(dir))) return;
+    
+    this.log.push({ action: 'mkdir', path: path.resolve(dir), existed });
+    if (!this.dryRun) fs.mkdirSync(dir, { recursive: true });
+  }
+  
+  write(file: string, content: string): void {
+    this.log.push({ action: 'write', path: path.resolve(file), existed: fs.existsSync(file), hash: hashContent(content) });
+    if (!this.dryRun) fs.writeFileSync(file, content);
+  }
+  
+  copy(from: string, to: string): void {
+    this.log.push({
+      action: 'copy',
+      path: path.resolve(to),
+      from: path.resolve(from),
+      existed: fs.existsSync(to),
+      hash: hashFile(from) ?? undefined
+    });
+    if (!this.dryRun) fs.copyFileSync(from, to);
+  }
+  
+  // A copy that was changed on the way
+  transform(from: string, to: string, content: string | Buffer, via: string[]): void {
+    this.log.push({
+      action: 'transform',
+      path: path.resolve(to),
+      from: path.resolve(from),
+      via,
+      existed: fs.existsSync(to),
+      hash: hashContent(content),
+      sourceHash: hashFile(from) ?? undefined
+    });
+    if (!this.dryRun) fs.writeFileSync(to, content);
+  }
+  
+  // What one depth of the build read and wrote, so an unchanged level can be skipped next time
+  level(record: BuildLevelRecord): void {
+    this.levels.push(record);
+  }
+  
+  // Human-readable plan, one line per touched path
+  describe(): string[] {
+    return this.log.map(step => {
+      const verb = step.action === 'mkdir' ? 'create dir' : step.existed ? 'overwrite' : 'create';
+      const via = step.via ? ` (${step.via.join(' → ')})` : '';
+      return `${verb.padEnd(10)} ${step.path}${step.from ? ` ← ${step.from}${via}` : ''}`;
+    });
+  }
+  
+  // Merge this build into the manifest left by earlier ones; what an earlier build created stays created
+  save(sandbox: string, now: number): FractalBuildManifest | null {
+    if (this.dryRun) return null;
+    
+    const previous = BuildRecorder.load(this.origin);
+    const artifacts = new Map<string, BuildArtifactRecord>(
+      (previous?.artifacts || []).map(artifact => [artifact.path, artifact])
+    );
+    const levels = new Map<string, BuildLevelRecord>(
+      [...(previous?.levels || []), ...this.levels].map(level => [level.path, level])
+    );
+    
+    this.log.forEach(step => {
+      const earlier = artifacts.get(step.path);
+      artifacts.set(step.path, {
+        path: step.path,
+        kind: step.action === 'mkdir' ? 'dir' : 'file',
+        created: earlier ? earlier.created : !step.existed,
+        ...(step.hash ? { hash: step.hash } : {}),
+        ...(step.from ? { source: step.from } : {}),
+        ...(step.sourceHash ? { source_hash: step.sourceHash } : {})
+      });
+    });
+    
+    const manifest: FractalBuildManifest = {
+      origin: path.resolve(this.origin),
+      sandbox: path.resolve(sandbox),
+      built_at: now,
+      artifacts: [...artifacts.values()],
+      levels: [...levels.values()].sort((a, b) => a.depth - b.depth)
+    };
+    
+    fs.writeFileSync(BuildRecorder.manifestPath(this.origin), JSON.stringify(manifest, null, 2));
+    return manifest;
+  }
+  
+  static manifestPath(origin: string): string {
+    return path.join(origin, BUILD_MANIFEST_FILE);
+  }
+  
+  static load(origin: string): FractalBuildManifest | null {
+    const file = BuildRecorder.manifestPath(origin);
+    return fs.existsSync(file) ? schemas.load('fractalBuild', file).data : null;
+  }
+  
+  // Check the copies each recorded level pushed into its parent's dist/ against the hashes recorded
+  // when it was built. A dist/ can be shared with sibling fractals, so only this build's copies count
+  static verify(origin: string): VerifyFinding[] {
+    const manifest = BuildRecorder.load(origin);
+    if (!manifest) throw new Error(`No ${BUILD_MANIFEST_FILE} in ${path.resolve(origin)} - nothing recorded to verify`);
+    
+    const records = new Map(manifest.artifacts.map(artifact => [artifact.path, artifact]));
+    const copies = manifest.artifacts.filter(artifact => artifact.source);
+    
+    // Records written before levels were kept only have the copies themselves to go on
+    const files = manifest.levels
+      ? manifest.levels.flatMap(level => {
+        const dist = path.join(path.dirname(level.path), 'dist');
+        return [
+          ...level.outputs,
+          ...copies.filter(copy => BuildRecorder.within(level.path, copy.source!)).map(copy => copy.path)
+        ].filter(file => BuildRecorder.within(dist, file) && path.basename(file) !== '.fractal.meta');
+      })
+      : copies.map(copy => copy.path);
+    
+    return [...new Set(files)].map(file => BuildRecorder.check(file, records.get(file)));
+  }
+  
+  private static check(file: string, record: BuildArtifactRecord | undefined): VerifyFinding {
+    const actual = hashFile(file);
+    
+    if (!record?.hash) return { path: file, status: 'unrecorded', detail: 'no build recorded this copy' };
+    if (actual === null) return { path: file, status: 'missing' };
+    if (actual !== record.hash) return { path: file, status: 'tampered', detail: 'changed since it was built' };
+    
+    // The copy is what was built, but what it was built from has moved on
+    const expected = record.source_hash ?? record.hash;
+    const source = record.source ? hashFile(record.source) : expected;
+    if (source !== expected) {
+      return { path: file, status: 'drifted', detail: `${record.source} ${source === null ? 'is gone' : 'changed since the build'}` };
+    }
+    return { path: file, status: 'ok' };
+  }
+  
+  private static within(dir: string, file: string): boolean {
+    const relative = path.relative(dir, file);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+  
+  // Remove what the recorded builds created; files they merely overwrote, files edited since and
+  // anything the record places outside its sandbox are left alone
+  static clean(origin: string, dryRun: boolean = false): CleanResult {
+    const manifest = BuildRecorder.load(origin);
+    if (!manifest) throw new Error(`No ${BUILD_MANIFEST_FILE} in ${path.resolve(origin)} - nothing recorded to clean`);
+    
+    const result: CleanResult = { removed: [], kept: [] };
+    const files = manifest.artifacts.filter(a => a.kind === 'file');
+    // Deepest first, so a directory is empty by the time it comes up
+    const dirs = manifest.artifacts
+      .filter(a => a.kind === 'dir')
+      .sort((a, b) => b.path.split(path.sep).length - a.path.split(path.sep).length);
+    const gone = new Set<string>();
+    
+    const outside = (artifact: BuildArtifactRecord) => !BuildRecorder.within(manifest.sandbox, artifact.path);
+    
+    files.forEach(artifact => {
+      if (outside(artifact)) {
+        result.kept.push({ path: artifact.path, reason: `outside the sandbox ${manifest.sandbox}` });
+        return;
+      }
+      if (!artifact.created) {
+        result.kept.push({ path: artifact.path, reason: 'existed before the build' });
+        return;
+      }
+      if (!fs.existsSync(artifact.path)) return;
+      
+      const actual = hashFile(artifact.path);
+      if (!artifact.hash || actual !== artifact.hash) {
+        result.kept.push({ path: artifact.path, reason: artifact.hash ? 'changed since the build' : 'no recorded hash to check' });
+        return;
+      }
+      
+      if (!dryRun) fs.rmSync(artifact.path);
+      gone.add(artifact.path);
+      result.removed.push(artifact.path);
+    });
+    
+    dirs.forEach(artifact => {
+      if (outside(artifact)) {
+        result.kept.push({ path: artifact.path, reason: `outside the sandbox ${manifest.sandbox}` });
+        return;
+      }
+      if (!artifact.created || !fs.existsSync(artifact.path)) return;
+      
+      const left = fs.readdirSync(artifact.path).filter(entry => !gone.has(path.join(artifact.path, entry)));
+      if (left.length) {
+        result.kept.push({ path: artifact.path, reason: `not empty (${left.length} entries)` });
+        return;
+      }
+      
+      if (!dryRun) fs.rmdirSync(artifact.path);
+      gone.add(artifact.path);
+      result.removed.push(artifact.path);
+    });
+    
+    if (dryRun) return result;
+    if (!result.kept.length) {
+      fs.rmSync(BuildRecorder.manifestPath(origin));
+      return result;
+    }
+    
+    // What was kept stays on record, so a later clean or verify still knows it came from a build
+    const remaining = (file: string) => !gone.has(file) && fs.existsSync(file);
+    const kept: FractalBuildManifest = {
+      ...manifest,
+      artifacts: manifest.artifacts.filter(artifact => remaining(artifact.path)),
+      ...(manifest.levels ? {
+        levels: manifest.levels
+          .map(level => ({ ...level, outputs: level.outputs.filter(remaining) }))
+          .filter(level => level.outputs.length)
+      } : {})
+    };
+    fs.writeFileSync(BuildRecorder.manifestPath(origin), JSON.stringify(kept, null, 2));
+    return result;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,296 @@
+// 📊 Organism Dashboard
+// Local web view of the organism and its roof, live over Server-Sent Events - no network beyond localhost
+
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Subscription } from 'rxjs';
+import { schemas, OrganismManifest, OrganismMemory } from './schema';
+import { RoofGuardian, roof } from '../roof/guardian';
+
+export interface DashboardOptions {
+  roof?: RoofGuardian;
+  interval?: number; // How often organism files are polled for changes, in ms
+}
+
+export interface DashboardEvent {
+  event: 'state' | 'observation' | 'svg' | 'roof';
+  data: unknown;
+}
+
+const HEARTBEAT = 15000; // Keeps idle proxies and browsers from dropping the stream
+
+export class OrganismDashboard {
+  private server: http.Server | null = null;
+  private clients = new Set<http.ServerResponse>();
+  private subscription: Subscription | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+  private watched: string[] = [];
+  private lastObservation = -Infinity;
+  private lastResonance: number | null = null;
+  private readonly roof: RoofGuardian;
+  private readonly interval: number;
+  
+  constructor(readonly organismDir: string, options: DashboardOptions = {}) {
+    this.roof = options.roof ?? roof;
+    this.interval = options.interval ?? 500;
+  }
+  
+  private get manifestPath(): string {
+    return path.join(this.organismDir, 'manifest.yaml');
+  }
+  
+  private get memoryPath(): string {
+    return path.join(this.organismDir, 'memory.json');
+  }
+  
+  private get svgPath(): string {
+    return path.join(this.organismDir, 'mind.svg');
+  }
+  
+  // Resolves with the address actually bound, which matters when port 0 asks for any free one
+  start(port: number = 7070, host: string = '127.0.0.1'): Promise<{ port: number; host: string }> {
+    if (this.server) throw new Error('Dashboard is already running');
+    
+    const server = http.createServer((req, res) => this.route(req, res));
+    this.server = server;
+    
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        this.follow();
+        
+        const address = server.address() as { port: number };
+        resolve({ port: address.port, host });
+      });
+    });
+  }
+  
+  stop(): Promise<void> {
+    this.subscription?.unsubscribe();
+    this.subscription = null;
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+    this.watched.forEach(file => fs.unwatchFile(file));
+    this.watched = [];
+    
+    this.clients.forEach(client => client.end());
+    this.clients.clear();
+    
+    const server = this.server;
+    this.server = null;
+    return new Promise(resolve => (server ? server.close(() => resolve()) : resolve()));
+  }
+  
+  state(): { manifest: OrganismManifest; memory: OrganismMemory } {
+    return {
+      manifest: schemas.load('manifest', this.manifestPath).data,
+      memory: schemas.load('memory', this.memoryPath).data
+    };
+  }
+  
+  broadcast({ event, data }: DashboardEvent): void {
+    const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    this.clients.forEach(client => client.write(message));
+  }
+  
+  private route(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.method !== 'GET') return this.send(res, 405, 'text/plain', 'Method not allowed');
+    
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    try {
+      switch (pathname) {
+        case '/':
+          return this.send(res, 200, 'text/html; charset=utf-8', this.page());
+        case '/state':
+          return this.send(res, 200, 'application/json', JSON.stringify(this.state()));
+        case '/svg':
+          return this.send(res, 200, 'image/svg+xml', fs.readFileSync(this.svgPath, 'utf8'));
+        case '/children':
+          return this.send(res, 200, 'application/json', JSON.stringify(this.roof.children()));
+        case '/events':
+          return this.stream(req, res);
+        default:
+          return this.send(res, 404, 'text/plain', `Nothing at ${pathname}`);
+      }
+    } catch (e) {
+      this.send(res, 500, 'text/plain', (e as Error).message);
+    }
+  }
+  
+  private send(res: http.ServerResponse, status: number, type: string, body: string): void {
+    res.writeHead(status, { 'Content-Type': type, 'Cache-Control': 'no-store' });
+    res.end(body);
+  }
+  
+  private stream(req: http.IncomingMessage, res: http.ServerResponse): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store',
+      Connection: 'keep-alive'
+    });
+    res.write(': connected\n\n');
+    
+    this.clients.add(res);
+    req.on('close', () => this.clients.delete(res));
+  }
+  
+  // Feed the stream: organism files as they change, the roof as it ticks
+  private follow(): void {
+    try {
+      this.lastObservation = this.latest(this.state().memory);
+    } catch {
+      // No readable memory yet; every observation will be fresh
+    }
+    
+    this.watch(this.memoryPath, () => this.memoryChanged());
+    this.watch(this.manifestPath, () => this.stateChanged());
+    this.watch(this.svgPath, () => this.broadcast({ event: 'svg', data: { changed_at: Date.now() } }));
+    
+    this.subscription = this.roof.observe().subscribe(observation => {
+      if (!observation.changes.length && observation.resonance === this.lastResonance) return;
+      this.lastResonance = observation.resonance;
+      this.broadcast({ event: 'roof', data: observation });
+    });
+    
+    this.heartbeat = setInterval(() => this.clients.forEach(client => client.write(': heartbeat\n\n')), HEARTBEAT);
+  }
+  
+  private watch(file: string, listener: () => void): void {
+    fs.watchFile(file, { interval: this.interval }, listener);
+    this.watched.push(file);
+  }
+  
+  private memoryChanged(): void {
+    const state = this.stateChanged();
+    if (!state) return;
+    
+    // Observations roll up once retention is full, so compare by time not index
+    state.memory.observations
+      .filter(o => o.timestamp > this.lastObservation)
+      .forEach(o => this.broadcast({ event: 'observation', data: o }));
+    this.lastObservation = Math.max(this.lastObservation, this.latest(state.memory));
+  }
+  
+  private stateChanged(): ReturnType<OrganismDashboard['state']> | null {
+    try {
+      const state = this.state();
+      this.broadcast({ event: 'state', data: state });
+      return state;
+    } catch (e) {
+      console.error(`⚠️ ${(e as Error).message}`); // Mid-write or invalid; the next change will do
+      return null;
+    }
+  }
+  
+  private latest(memory: OrganismMemory): number {
+    return memory.observations.reduce((latest, o) => Math.max(latest, o.timestamp), -Infinity);
+  }
+  
+  // Everything inline, so the page needs nothing but this server
+  private page(): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>📊 Organism</title>
+  <style>
+    body { font-family: monospace; background: #111; color: #ccc; margin: 0; display: flex; gap: 24px; padding: 24px; }
+    #mind { width: 420px; height: 420px; background: #000; flex: none; }
+    #mind svg { width: 100%; height: 100%; }
+    section { flex: 1; min-width: 0; }
+    h2 { font-size: 14px; color: #888; margin: 16px 0 4px; }
+    ul { list-style: none; padding: 0; margin: 0; max-height: 240px; overflow-y: auto; }
+    #status.offline { color: #c44; }
+  </style>
+</head>
+<body>
+  <div id="mind"></div>
+  <section>
+    <div id="status">connecting…</div>
+    <h2>organism</h2>
+    <div id="organism"></div>
+    <h2>observations</h2>
+    <ul id="observations"></ul>
+    <h2>roof</h2>
+    <div id="roof"></div>
+    <ul id="children"></ul>
+  </section>
+  <script>
+    const $ = id => document.getElementById(id);
+    
+    const loadSVG = () => fetch('/svg').then(r => r.text()).then(svg => { $('mind').innerHTML = svg; });
+    
+    const showState = ({ manifest, memory }) => {
+      const t = memory.evolution_trajectory;
+      $('organism').textContent = manifest.name + ' v' + manifest.version + ' · generation ' + memory.generation
+        + ' · ' + t.current_state + ' · energy ' + t.energy_level.toFixed(2);
+    };
+    
+    const showObservation = o => {
+      const item = document.createElement('li');
+      const resonance = typeof o.resonance === 'number' ? o.resonance.toFixed(3) : '—';
+      item.textContent = new Date(o.timestamp).toISOString() + '  🌊 ' + resonance + '  🔗 ' + (o.interactions ?? '—');
+      $('observations').prepend(item);
+      while ($('observations').children.length > 50) $('observations').lastChild.remove();
+    };
+    
+    const showRoof = ({ current, resonance }) => {
+      $('roof').textContent = current.length + ' fractals below · resonance ' + resonance.toFixed(3);
+      $('children').replaceChildren(...current.map(child => {
+        const item = document.createElement('li');
+        item.textContent = '  '.repeat(child.depth - 1) + child.path + '  pulse ' + child.signature.pulse;
+        return item;
+      }));
+    };
+    
+    fetch('/state').then(r => r.json()).then(state => {
+      showState(state);
+      state.memory.observations.slice(-20).forEach(showObservation);
+    });
+    fetch('/children').then(r => r.json()).then(showRoof);
+    loadSVG();
+    
+    const events = new EventSource('/events');
+    events.onopen = () => { $('status').textContent = '● live'; $('status').className = ''; };
+    events.onerror = () => { $('status').textContent = '○ reconnecting…'; $('status').className = 'offline'; };
+    events.addEventListener('state', e => showState(JSON.parse(e.data)));
+    events.addEventListener('observation', e => showObservation(JSON.parse(e.data)));
+    events.addEventListener('svg', loadSVG);
+    events.addEventListener('roof', e => showRoof(JSON.parse(e.data)));
+  </script>
+</body>
+</html>`;
+  }
+}
+
+// CLI usage
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => {
+    const i = args.indexOf(`--${name}`);
+    return i >= 0 ? args.splice(i, 2)[1] : undefined;
+  };
+  
+  const port = Number(flag('port') ?? 7070);
+  const host = flag('host') ?? '127.0.0.1';
+  if (!Number.isInteger(port) || port < 0) {
+    console.error('Usage: ts-node dashboard.ts [organism dir] [--port n] [--host address]');
+    process.exit(1);
+  }
+  
+  const [dir = path.join(__dirname, '..', 'agent⟁')] = args;
+  const dashboard = new OrganismDashboard(dir);
+  
+  dashboard.start(port, host).then(address => {
+    console.log(`📊 Dashboard on http://${address.host}:${address.port} (Ctrl+C to stop)`);
+  }).catch(e => {
+    console.error(`⚠️ ${(e as Error).message}`);
+    process.exit(1);
+  });
+  
+  const stop = () => dashboard.stop().then(() => process.exit(0));
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+}
\ No newline at end of file
@@ -0,0 +1,86 @@
+// 🎲 Entropy Source
+// Seeded randomness and injectable time, so evolution runs can be replayed
+
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now()
+};
+
+// Deterministic clock for replays - advances a fixed step on every read
+export class SteppedClock implements Clock {
+  private current: number;
+  
+  constructor(start: number, private readonly step: number = 1) {
+    this.current = start - step;
+  }
+  
+  now(): number {
+    this.current += this.step;
+    return this.current;
+  }
+}
+
+// mulberry32 - small, fast and good enough for genetic dice
+export class SeededRandom {
+  private state: number;
+  
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+  
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+  
+  // Seed for an independent child stream
+  nextSeed(): number {
+    return Math.floor(this.next() * 4294967296) >>> 0;
+  }
+  
+  token(length: number = 6): string {
+    let token = '';
+    for (let i = 0; i < length; i++) {
+      token += Math.floor(this.next() * 36).toString(36);
+    }
+    return token;
+  }
+}
+
+export interface Entropy {
+  seed: number;
+  random: SeededRandom;
+  clock: Clock;
+}
+
+// A typo must not quietly become seed 0 or the 1970 epoch
+function integerFromEnv(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined) return undefined;
+  
+  if (!/^-?\d+$/.test(value.trim()) || !Number.isSafeInteger(Number(value))) {
+    throw new Error(`${name} must be an integer, got ${JSON.stringify(value)}`);
+  }
+  return Number(value);
+}
+
+// FRACTAL_SEED pins the dice, FRACTAL_EPOCH pins the clock
+export function createEntropy(options: { seed?: number; clock?: Clock } = {}): Entropy {
+  const envSeed = integerFromEnv('FRACTAL_SEED');
+  const envEpoch = integerFromEnv('FRACTAL_EPOCH');
+  
+  const seed = options.seed
+    ?? (envSeed !== undefined ? envSeed >>> 0 : Math.floor(Math.random() * 4294967296) >>> 0);
+  const clock = options.clock
+    ?? (envEpoch !== undefined ? new SteppedClock(envEpoch) : systemClock);
+  
+  return { seed, random: new SeededRandom(seed), clock };
+}
\ No newline at end of file
@@ -0,0 +1,235 @@
+// 🎞️ Film Strip
+// Replays mutation_history through the SVG renderer, one frame per generation
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { schemas, OrganismManifest, OrganismMemory } from './schema';
+import { DriftRecord, MutationRecord } from './genetic-drift';
+import { mutationOperators } from './mutation-operators';
+import { SVGRenderer, SVGTheme } from './svg-renderer';
+import { writeFileAtomic } from './atomic';
+
+export interface FilmFrame {
+  index: number;
+  generation: number;
+  timestamp: number;
+  added: string[]; // Mutation ids born in this generation
+  removed: string[]; // Rolled back or reverted since the previous frame
+  manifest: OrganismManifest;
+  memory: OrganismMemory;
+}
+
+export interface FilmOptions {
+  theme?: SVGTheme | string;
+  frameDuration?: number; // Seconds each generation stays on screen
+}
+
+const DEFAULT_FRAME_DURATION = 1;
+
+export class FilmStrip {
+  // The organism as it stood after each recorded generation, starting from its birth
+  frames(manifest: OrganismManifest, memory: OrganismMemory): FilmFrame[] {
+    const history = [...(memory.mutation_history as unknown as DriftRecord[])]
+      .filter(record => Array.isArray(record?.mutations))
+      .sort((a, b) => a.timestamp - b.timestamp);
+    
+    // When each mutation left again, if it did
+    const settled = new Map<string, number>(
+      (memory.failed_mutations as MutationRecord[])
+        .filter(record => record?.id && record.settled_at !== undefined)
+        .map(record => [record.id, record.settled_at!])
+    );
+    const colors = new Map<string, string>(
+      (manifest.state.mutations || [])
+        .filter((m: any) => m.id)
+        .map((m: any) => [m.id, m.color])
+    );
+    
+    const alive: Array<{ id: string; color: string; strength: number; type: string; born: number }> = [];
+    const birth = { generation: 0, timestamp: memory.birth, mutations: [], patterns: [], feedback: null } as any;
+    
+    return [birth, ...history].map((record, index) => {
+      const removed = alive
+        .filter(m => (settled.get(m.id) ?? Infinity) <= record.timestamp)
+        .map(m => m.id);
+      removed.forEach(id => alive.splice(alive.findIndex(m => m.id === id), 1));
+      
+      const added = (record.mutations as DriftRecord['mutations']).map(m => {
+        const color = colors.get(m.id)
+          ?? (mutationOperators.has(m.type) ? mutationOperators.get(m.type).color : 'gray');
+        alive.push({ id: m.id, color, strength: m.strength, type: m.type, born: record.timestamp });
+        return m.id;
+      });
+      
+      return {
+        index,
+        generation: record.generation ?? index,
+        timestamp: record.timestamp,
+        added,
+        removed,
+        // Today's measured resonance is left out: a frame is colored by what its generation recorded
+        manifest: {
+          ...manifest,
+          state: { ...manifest.state, resonance: undefined as number | undefined, mutations: alive.map(m => ({ ...m })) }
+        },
+        memory: {
+          ...memory,
+          generation: record.generation ?? index,
+          resonance_patterns: this.resonanceAt(memory, record),
+          evolution_trajectory: {
+            ...memory.evolution_trajectory,
+            energy_level: record.feedback?.energy_flow || memory.evolution_trajectory.energy_level
+          }
+        }
+      };
+    });
+  }
+  
+  // One self-playing SVG: every frame drawn once, SMIL flips their visibility in turn
+  toAnimatedSVG(frames: FilmFrame[], options: FilmOptions = {}): string {
+    const renderer = new SVGRenderer(options.theme || 'still');
+    const duration = frames.length * (options.frameDuration ?? DEFAULT_FRAME_DURATION);
+    const keyTimes = frames.map((_, i) => (i / frames.length).toFixed(4)).join(';');
+    
+    const layers = frames.map((frame, i) => {
+      const values = frames.map((_, j) => (i === j ? 'visible' : 'hidden')).join(';');
+      
+      return `  <g id="generation-${frame.generation}" visibility="${i === 0 ? 'visible' : 'hidden'}">
+    <animate attributeName="visibility" values="${values}" keyTimes="${keyTimes}"
+             calcMode="discrete" dur="${duration}s" repeatCount="indefinite"/>
+${this.body(renderer.render(frame.manifest, frame.memory))}
+    <text x="2" y="98" font-size="4" font-family="monospace" fill="gray">${this.caption(frame)}</text>
+  </g>`;
+    });
+    
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">
+  <!-- ${frames.length} generations, ${duration}s per loop -->
+${layers.join('\n')}
+</svg>`;
+  }
+  
+  // frame-0001.svg, frame-0002.svg, ... and an index.html with a scrubber to step through them
+  writeFrames(dir: string, frames: FilmFrame[], options: FilmOptions = {}): string[] {
+    const renderer = new SVGRenderer(options.theme || 'still');
+    fs.mkdirSync(dir, { recursive: true });
+    
+    const files = frames.map(frame => {
+      const file = path.join(dir, `frame-${String(frame.index + 1).padStart(4, '0')}.svg`);
+      writeFileAtomic(file, renderer.render(frame.manifest, frame.memory));
+      return file;
+    });
+    
+    const viewer = path.join(dir, 'index.html');
+    writeFileAtomic(viewer, this.viewer(frames, files.map(file => path.basename(file)), options));
+    
+    return [...files, viewer];
+  }
+  
+  private resonanceAt(memory: OrganismMemory, record: any): OrganismMemory['resonance_patterns'] {
+    const patterns: Array<{ resonance_impact: number }> = record.patterns || [];
+    const self = patterns.length
+      ? patterns.reduce((sum, p) => sum + p.resonance_impact, 0) / patterns.length
+      : memory.resonance_patterns.self;
+    
+    return {
+      ...memory.resonance_patterns,
+      self,
+      ecosystem: record.feedback?.resonance_received ?? memory.resonance_patterns.ecosystem
+    };
+  }
+  
+  // Inner markup of a rendered SVG, without its root element or metadata
+  private body(svg: string): string {
+    return svg
+      .replace(/^<svg[^>]*>\n?/, '')
+      .replace(/\n?<\/svg>\s*$/, '')
+      .replace(/\s*<!-- Metadata -->[\s\S]*<\/metadata>/, '')
+      .split('\n')
+      .map(line => `  ${line}`)
+      .join('\n');
+  }
+  
+  private caption(frame: FilmFrame): string {
+    const change = [
+      frame.added.length ? `+${frame.added.length}` : '',
+      frame.removed.length ? `-${frame.removed.length}` : ''
+    ].filter(Boolean).join(' ');
+    
+    return `gen ${frame.generation} · ${new Date(frame.timestamp).toISOString().slice(0, 19)}${change ? ` · ${change}` : ''}`;
+  }
+  
+  private viewer(frames: FilmFrame[], files: string[], options: FilmOptions): string {
+    const captions = frames.map(frame => this.caption(frame));
+    const interval = (options.frameDuration ?? DEFAULT_FRAME_DURATION) * 1000;
+    
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>🎞️ ${frames[0]?.manifest.name ?? ''} - ${frames.length} generations</title>
+  <style>
+    body { font-family: monospace; background: #111; color: #ccc; text-align: center; }
+    img { width: 480px; height: 480px; background: #000; }
+    input[type=range] { width: 480px; }
+  </style>
+</head>
+<body>
+  <img id="frame" src="${files[0] ?? ''}">
+  <div><input id="scrubber" type="range" min="0" max="${Math.max(0, files.length - 1)}" value="0"></div>
+  <div><button id="play">▶</button> <span id="caption"></span></div>
+  <script>
+    const files = ${JSON.stringify(files)};
+    const captions = ${JSON.stringify(captions)};
+    const frame = document.getElementById('frame');
+    const scrubber = document.getElementById('scrubber');
+    const caption = document.getElementById('caption');
+    const play = document.getElementById('play');
+    let timer = null;
+    
+    const show = i => {
+      scrubber.value = i;
+      frame.src = files[i];
+      caption.textContent = captions[i];
+    };
+    
+    scrubber.addEventListener('input', () => show(Number(scrubber.value)));
+    play.addEventListener('click', () => {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+        play.textContent = '▶';
+        return;
+      }
+      timer = setInterval(() => show((Number(scrubber.value) + 1) % files.length), ${interval});
+      play.textContent = '⏸';
+    });
+    show(0);
+  </script>
+</body>
+</html>`;
+  }
+}
+
+export const filmStrip = new FilmStrip();
+
+// CLI usage
+if (require.main === module) {
+  const [format = 'svg', output, dir = path.join(__dirname, '..', 'agent⟁'), theme] = process.argv.slice(2);
+  
+  if ((format !== 'svg' && format !== 'frames') || !output) {
+    console.error('Usage: ts-node film-strip.ts <svg|frames> <output.svg|output-dir> [organism dir] [theme]');
+    process.exit(1);
+  }
+  
+  const manifest = schemas.load('manifest', path.join(dir, 'manifest.yaml')).data;
+  const memory = schemas.load('memory', path.join(dir, 'memory.json')).data;
+  const frames = filmStrip.frames(manifest, memory);
+  
+  if (format === 'svg') {
+    writeFileAtomic(output, filmStrip.toAnimatedSVG(frames, { theme }));
+    console.log(`🎞️ ${frames.length} generations → ${output}`);
+  } else {
+    const files = filmStrip.writeFrames(output, frames, { theme });
+    console.log(`🎞️ ${frames.length} frames → ${path.join(output, path.basename(files[files.length - 1]))}`);
+  }
+}
\ No newline at end of file
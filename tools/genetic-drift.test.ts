@@ -0,0 +1,91 @@
+// 🧪 Genetic Drift
+// Fitness has to follow the organism, or selection has nothing to select on
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { GeneticDriftEngine, EcosystemFeedback, Population, UsagePattern } from './genetic-drift';
+import { createEntropy } from './entropy';
+
+const EPOCH = 1700000000000;
+
+const patterns: UsagePattern[] = [
+  { event: 'eatSelf', frequency: 1, success_rate: 0.9, resonance_impact: 1, timestamp: EPOCH },
+  { event: 'replicate', frequency: 0.2, success_rate: 0.5, resonance_impact: 0.5, timestamp: EPOCH }
+];
+
+const feedback: EcosystemFeedback = {
+  interactions: 3,
+  resonance_received: 0.5,
+  clones_spawned: 1,
+  mutations_survived: 0,
+  energy_flow: 0.5
+};
+
+const record = (id: string) => ({ id, target: `behaviors.${id}`, status: 'survived' });
+
+const organism = (survived: number, failed: number) => ({
+  state: { self: true, mutations: [] as unknown[] },
+  manifest: { events: ['eatSelf', 'replicate'] },
+  successful_mutations: Array.from({ length: survived }, (_, i) => record(`s${i}`)),
+  failed_mutations: Array.from({ length: failed }, (_, i) => record(`f${i}`))
+});
+
+const engine = () => new GeneticDriftEngine(createEntropy({ seed: 7, clock: { now: () => EPOCH } }));
+
+test('fitness reads the organism, not only its environment', () => {
+  const drift = engine();
+  const kept = drift.evaluateFitness(organism(3, 0), patterns, feedback);
+  const lost = drift.evaluateFitness(organism(0, 3), patterns, feedback);
+
+  assert.ok(kept > lost, `${kept} should beat ${lost}`);
+});
+
+test('behaviors tuned to how the organism is used are fitter', () => {
+  const drift = engine();
+  const plain = organism(0, 0);
+  const tuned = { ...organism(0, 0), behaviors: { eatSelf: { efficiency: 1.21 }, replicate: 'deprecate' } };
+
+  assert.ok(drift.evaluateFitness(tuned, patterns, feedback) > drift.evaluateFitness(plain, patterns, feedback));
+});
+
+test('a fitter mutation set wins selection', () => {
+  const population: Population = {
+    generation: 0,
+    members: [
+      { id: 'failing', organism: organism(0, 3), patterns, feedback },
+      { id: 'surviving', organism: organism(3, 0), patterns, feedback }
+    ]
+  };
+
+  const step = engine().evolvePopulation(population, { size: 20, elites: 1, tournament_size: 2 }, 42, EPOCH);
+
+  assert.deepEqual(step.ranking.map(r => r.id), ['surviving', 'failing']);
+  assert.deepEqual(step.elites, ['surviving']);
+
+  // Tournaments of two hand most offspring to the surviving line
+  const offspring = step.population.members.slice(1);
+  const sired = offspring.filter(child => child.id.startsWith('surviving~')).length;
+  assert.ok(sired > offspring.length / 2, `${sired} of ${offspring.length} offspring from the surviving line`);
+});
+
+test('probation keeps what helps the organism and rolls back what hurts it, whatever the environment did', () => {
+  const drift = engine();
+  const due = EPOCH + 3600000;
+  const probation = (id: string, target: string) => ({
+    id, type: 'alter_behavior', target, value: 'deprecate', strength: 0.5, generation: 1, applied_at: EPOCH,
+    fitness_before: 1, inverse: { op: 'restore', target, existed: false }, status: 'probation'
+  });
+
+  // Deprecating the behavior it lives on hurts; deprecating the one it barely uses helps
+  const mutated = {
+    ...organism(0, 0),
+    behaviors: { eatSelf: 'deprecate', replicate: 'deprecate' },
+    probation: [probation('0.0', 'behaviors.eatSelf'), probation('0.1', 'behaviors.replicate')]
+  };
+
+  const { survived, rolledBack } = drift.reviewProbation(mutated, patterns, { ...feedback, energy_flow: 0 }, due);
+
+  assert.deepEqual(survived.map(m => m.id), ['0.1']);
+  assert.deepEqual(rolledBack.map(m => m.id), ['0.0']);
+  assert.ok(rolledBack[0].fitness_without! > rolledBack[0].fitness_after!);
+});
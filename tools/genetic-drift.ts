@@ -1,7 +1,17 @@
 // 🧬 Genetic Drift Engine
 // Evolves organisms based on usage patterns and ecosystem feedback
 
-interface UsagePattern {
+import * as yaml from 'js-yaml';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createEntropy, Entropy, SeededRandom, Clock } from './entropy';
+import { mutationOperators, MutationInverse } from './mutation-operators';
+import { MutationPolicy, MutationRejectedError, PolicyViolation, isSafePath, hasOwn, isPlainObject } from './mutation-policy';
+import { resonance } from './resonance';
+
+export { MutationInverse };
+
+export interface UsagePattern {
   event: string;
   frequency: number;
   success_rate: number;
@@ -9,15 +19,32 @@ interface UsagePattern {
   timestamp: number;
 }
 
-interface Mutation {
-  type: 'add_event' | 'modify_state' | 'alter_behavior' | 'visual_change';
+export interface Mutation {
+  id?: string;
+  type: string; // Any operator registered in mutationOperators
   target: string;
   value: any;
   strength: number;
-  color: string;
+  color?: string;
 }
 
-interface EcosystemFeedback {
+export interface MutationRecord {
+  id: string;
+  type: Mutation['type'];
+  target: string;
+  value: any;
+  strength: number;
+  generation: number;
+  applied_at: number;
+  fitness_before: number;
+  inverse: MutationInverse;
+  status: 'probation' | 'survived' | 'rolled_back' | 'reverted';
+  fitness_after?: number;
+  fitness_without?: number; // At review, the same organism with this mutation undone
+  settled_at?: number;
+}
+
+export interface EcosystemFeedback {
   interactions: number;
   resonance_received: number;
   clones_spawned: number;
@@ -25,12 +52,108 @@ interface EcosystemFeedback {
   energy_flow: number;
 }
 
+export interface DriftRecord {
+  timestamp: number;
+  seed: number;
+  generation: number;
+  patterns: UsagePattern[];
+  feedback: EcosystemFeedback;
+  mutations: Array<{ id: string; type: string; target: string; strength: number }>;
+  rejected?: Array<{ type: string; target: string; rules: string[] }>;
+  vector: { direction: number[]; magnitude: number };
+}
+
+export interface RejectedMutation {
+  mutation: Mutation;
+  violations: PolicyViolation[];
+}
+
+export interface PopulationMember {
+  id: string;
+  organism: any;
+  patterns: UsagePattern[];
+  feedback: EcosystemFeedback;
+  parents?: string[];
+}
+
+export interface Population {
+  generation: number;
+  members: PopulationMember[];
+}
+
+export interface PopulationOptions {
+  size: number;
+  elites: number;
+  selection: 'tournament' | 'roulette';
+  tournament_size: number;
+  crossover_rate: number;
+}
+
+export interface PopulationStep {
+  population: Population;
+  seed: number;
+  ranking: Array<{ id: string; fitness: number }>;
+  elites: string[];
+}
+
 export class GeneticDriftEngine {
+  static readonly DEFAULT_POPULATION: PopulationOptions = {
+    size: 8,
+    elites: 2,
+    selection: 'tournament',
+    tournament_size: 3,
+    crossover_rate: 0.7
+  };
+  
   private readonly DRIFT_THRESHOLD = 0.7;
   private readonly MUTATION_RATE = 0.1;
   private readonly LEARNING_RATE = 0.05;
+  private readonly PROBATION_WINDOW = 3600000; // 1 hour of living with it
   
-  analyzeUsagePatterns(patterns: UsagePattern[]): {
+  private random: SeededRandom;
+  private clock: Clock;
+  
+  constructor(entropy: Entropy = createEntropy(), private policy: MutationPolicy = new MutationPolicy()) {
+    this.random = entropy.random;
+    this.clock = entropy.clock;
+  }
+  
+  // Population settings from feedback.evolution.population in 🧬.observable.yaml
+  static populationFrom(root: string): PopulationOptions {
+    const configPath = path.join(root, '🧬.observable.yaml');
+    if (!fs.existsSync(configPath)) return GeneticDriftEngine.DEFAULT_POPULATION;
+    
+    const config = yaml.load(fs.readFileSync(configPath, 'utf8')) as any;
+    return GeneticDriftEngine.populationOptions(config?.feedback?.evolution?.population || {}, configPath);
+  }
+  
+  // Defaults filled in, and anything that would breed nonsense refused
+  static populationOptions(options: Partial<PopulationOptions>, source: string = 'population options'): PopulationOptions {
+    const config = { ...GeneticDriftEngine.DEFAULT_POPULATION, ...options };
+    const problems: string[] = [];
+    const integer = (key: keyof PopulationOptions, min: number) => {
+      const value = config[key];
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+        problems.push(`${key} must be an integer >= ${min}, got ${JSON.stringify(value)}`);
+      }
+    };
+    
+    integer('size', 1);
+    integer('elites', 0);
+    integer('tournament_size', 1);
+    if (config.elites > config.size) problems.push(`elites (${config.elites}) cannot exceed size (${config.size})`);
+    if (config.selection !== 'tournament' && config.selection !== 'roulette') {
+      problems.push(`selection must be "tournament" or "roulette", got ${JSON.stringify(config.selection)}`);
+    }
+    if (typeof config.crossover_rate !== 'number' || !(config.crossover_rate >= 0 && config.crossover_rate <= 1)) {
+      problems.push(`crossover_rate must be between 0 and 1, got ${JSON.stringify(config.crossover_rate)}`);
+    }
+    
+    if (problems.length) throw new Error(`${source}: ${problems.join('; ')}`);
+    return config;
+  }
+  
+  analyzeUsagePatterns(patterns: UsagePattern[], now: number = this.clock.now()): {
     dominant: string[];
     recessive: string[];
     emerging: string[];
@@ -39,7 +162,7 @@ export class GeneticDriftEngine {
     const scored = patterns.map(p => ({
       event: p.event,
       score: p.frequency * p.success_rate * p.resonance_impact,
-      recency: Date.now() - p.timestamp
+      recency: now - p.timestamp
     }));
     
     scored.sort((a, b) => b.score - a.score);
@@ -48,11 +171,11 @@ export class GeneticDriftEngine {
     const dominant = scored
       .filter(p => p.score > 0.8)
       .map(p => p.event);
-      
+    
     const recessive = scored
       .filter(p => p.score < 0.3)
       .map(p => p.event);
-      
+    
     const emerging = scored
       .filter(p => p.score > 0.5 && p.recency < 3600000) // Last hour
       .map(p => p.event);
@@ -62,14 +185,16 @@ export class GeneticDriftEngine {
   
   generateDriftMutations(
     patterns: UsagePattern[],
-    feedback: EcosystemFeedback
+    feedback: EcosystemFeedback,
+    random: SeededRandom = this.random,
+    now: number = this.clock.now()
   ): Mutation[] {
     const mutations: Mutation[] = [];
-    const analysis = this.analyzeUsagePatterns(patterns);
+    const analysis = this.analyzeUsagePatterns(patterns, now);
     
     // Strengthen dominant patterns
     analysis.dominant.forEach(event => {
-      if (Math.random() < this.MUTATION_RATE * 2) {
+      if (random.next() < this.MUTATION_RATE * 2) {
         mutations.push({
           type: 'modify_state',
           target: `behaviors.${event}.efficiency`,
@@ -82,7 +207,7 @@ export class GeneticDriftEngine {
     
     // Prune recessive patterns
     analysis.recessive.forEach(event => {
-      if (Math.random() < this.MUTATION_RATE) {
+      if (random.next() < this.MUTATION_RATE) {
         mutations.push({
           type: 'alter_behavior',
           target: `behaviors.${event}`,
@@ -95,7 +220,7 @@ export class GeneticDriftEngine {
     
     // Experiment with emerging patterns
     analysis.emerging.forEach(event => {
-      if (Math.random() < this.MUTATION_RATE * 1.5) {
+      if (random.next() < this.MUTATION_RATE * 1.5) {
         mutations.push({
           type: 'add_event',
           target: 'manifest.events',
@@ -168,57 +293,133 @@ export class GeneticDriftEngine {
   applyGeneticDrift(
     organism: any,
     patterns: UsagePattern[],
-    feedback: EcosystemFeedback
+    feedback: EcosystemFeedback,
+    seed: number = this.random.nextSeed(),
+    timestamp: number = this.clock.now()
   ): {
     mutated: any;
     mutations: Mutation[];
     driftVector: any;
+    rejected: RejectedMutation[];
   } {
-    const mutations = this.generateDriftMutations(patterns, feedback);
-    const driftVector = this.calculateDriftVector(organism, mutations);
+    // Each generation rolls its own dice so it can be replayed in isolation
+    const random = new SeededRandom(seed);
+    const proposed = this.generateDriftMutations(patterns, feedback, random, timestamp);
+    const driftVector = this.calculateDriftVector(organism, proposed);
     
     // Only apply if drift exceeds threshold
     if (driftVector.magnitude < this.DRIFT_THRESHOLD) {
-      return { mutated: organism, mutations: [], driftVector };
+      return { mutated: organism, mutations: [], driftVector, rejected: [] };
     }
     
-    // Apply mutations
-    const mutated = { ...organism };
+    // Apply mutations to a deep copy so the caller's organism stays replayable
+    const mutated = structuredClone(organism);
+    mutated.generation = (mutated.generation || 0) + 1;
     
-    mutations.forEach(mutation => {
-      this.applyMutation(mutated, mutation);
+    // Every mutation starts on probation, judged later against the fitness it replaced
+    const fitnessBefore = this.evaluateFitness(organism, patterns, feedback);
+    mutated.probation = [...(mutated.probation || [])];
+    
+    const mutations: Mutation[] = [];
+    const rejected: RejectedMutation[] = [];
+    
+    proposed.forEach((mutation, i) => {
+      mutation.id = `${seed.toString(36)}.${i}`;
+      
+      const { inverse, violations } = this.applyWithinPolicy(organism, mutated, mutation, timestamp);
+      if (!inverse) {
+        rejected.push({ mutation, violations });
+        return;
+      }
+      mutations.push(mutation);
+      
+      mutated.probation.push({
+        id: mutation.id,
+        type: mutation.type,
+        target: mutation.target,
+        value: mutation.value,
+        strength: mutation.strength,
+        generation: mutated.generation,
+        applied_at: timestamp,
+        fitness_before: fitnessBefore,
+        inverse,
+        status: 'probation'
+      } as MutationRecord);
     });
     
-    // Update generation and mutation history
-    mutated.generation = (mutated.generation || 0) + 1;
+    // Nothing got past the policy - the organism stays as it was
+    if (mutations.length === 0) {
+      return { mutated: organism, mutations, driftVector, rejected };
+    }
+    
+    // Update mutation history
+    const record: DriftRecord = {
+      timestamp,
+      seed,
+      generation: mutated.generation,
+      patterns,
+      feedback,
+      mutations: mutations.map(m => ({
+        id: m.id!,
+        type: m.type,
+        target: m.target,
+        strength: m.strength
+      })),
+      ...(rejected.length ? {
+        rejected: rejected.map(({ mutation, violations }) => ({
+          type: mutation.type,
+          target: mutation.target,
+          rules: violations.map(v => v.rule)
+        }))
+      } : {}),
+      vector: driftVector
+    };
+    
     mutated.mutation_history = [
       ...(mutated.mutation_history || []),
-      {
-        timestamp: Date.now(),
-        mutations: mutations.map(m => ({
-          type: m.type,
-          target: m.target,
-          strength: m.strength
-        })),
-        vector: driftVector
-      }
+      record
     ];
     
-    return { mutated, mutations, driftVector };
+    return { mutated, mutations, driftVector, rejected };
   }
   
-  private mutationToDimension(mutation: Mutation): number {
-    // Map mutation types to vector dimensions
-    const typeMap: Record<string, number> = {
-      'add_event': 0,
-      'modify_state': 1,
-      'alter_behavior': 2,
-      'visual_change': 3
-    };
+  // Apply one mutation, or take it straight back if it breaks the organism's invariants
+  private applyWithinPolicy(
+    before: any,
+    organism: any,
+    mutation: Mutation,
+    timestamp: number
+  ): { inverse?: MutationInverse; violations: PolicyViolation[] } {
+    const denied = this.policy.checkTarget(mutation.target);
+    if (denied.length) return { violations: denied };
+    
+    const inverse = this.applyMutation(organism, mutation, timestamp);
+    const violations = this.policy.checkInvariants(before, organism);
+    if (violations.length === 0) return { inverse, violations };
     
+    this.invert(organism, mutation.target, inverse);
+    organism.state.mutations = organism.state.mutations.filter((m: any) => m.id !== mutation.id);
+    return { violations };
+  }
+  
+  // Re-run a recorded generation against the organism as it was before it
+  replayGeneration(organism: any, record: DriftRecord): {
+    mutated: any;
+    mutations: Mutation[];
+    driftVector: any;
+    rejected: RejectedMutation[];
+  } {
+    return this.applyGeneticDrift(
+      organism, record.patterns, record.feedback, record.seed, record.timestamp
+    );
+  }
+  
+  private mutationToDimension(mutation: Mutation): number {
+    // Each operator owns an axis; the target spreads mutations along it
+    const axis = mutationOperators.has(mutation.type) ? mutationOperators.get(mutation.type).dimension : 0;
     const targetHash = this.hashString(mutation.target);
     
-    return (typeMap[mutation.type] || 0) * 1000 + (targetHash % 1000);
+    return axis * 1000 + (targetHash % 1000);
   }
   
   private hashString(str: string): number {
@@ -231,69 +432,185 @@ export class GeneticDriftEngine {
     return Math.abs(hash);
   }
   
-  private applyMutation(organism: any, mutation: Mutation): void {
+  private applyMutation(organism: any, mutation: Mutation, timestamp: number): MutationInverse {
+    // Last line of defence even for callers that skipped the policy
+    if (!isSafePath(mutation.target)) {
+      throw new MutationRejectedError(mutation.target, [
+        { rule: 'unsafe_path', path: mutation.target, detail: `${mutation.target} reaches outside the organism` }
+      ]);
+    }
+    
     const path = mutation.target.split('.');
     let current = organism;
     
-    // Navigate to target
+    // Navigate to target through own plain-object fields, creating the missing ones
     for (let i = 0; i < path.length - 1; i++) {
-      if (!current[path[i]]) {
+      if (!hasOwn(current, path[i])) {
         current[path[i]] = {};
+      } else if (!isPlainObject(current[path[i]])) {
+        const at = path.slice(0, i + 1).join('.');
+        throw new MutationRejectedError(mutation.target, [
+          { rule: 'unsafe_path', path: at, detail: `${at} is not an object a mutation can reach into` }
+        ]);
       }
       current = current[path[i]];
     }
     
     // Apply mutation
     const key = path[path.length - 1];
-    
-    switch (mutation.type) {
-      case 'add_event':
-        if (Array.isArray(current[key])) {
-          current[key].push(mutation.value);
-        } else {
-          current[key] = [mutation.value];
-        }
-        break;
-        
-      case 'modify_state':
-        if (typeof current[key] === 'number') {
-          current[key] *= mutation.value;
-        } else {
-          current[key] = mutation.value;
-        }
-        break;
-        
-      case 'alter_behavior':
-        current[key] = mutation.value;
-        break;
-        
-      case 'visual_change':
-        current[key] = mutation.value;
-        break;
-    }
+    const operator = mutationOperators.get(mutation.type);
+    const inverse: MutationInverse = { ...operator.apply(current, key, mutation.value), target: mutation.target };
     
     // Track mutation in state
     if (!organism.state) organism.state = {};
     if (!organism.state.mutations) organism.state.mutations = [];
     
     organism.state.mutations.push({
-      color: mutation.color,
+      id: mutation.id,
+      color: mutation.color ?? operator.color,
       strength: mutation.strength,
       type: mutation.type,
-      timestamp: Date.now()
+      timestamp
     });
+    
+    return inverse;
   }
   
-  // Fitness evaluation
+  // Settle mutations whose probation is over: keep those that did no harm, roll back the rest
+  reviewProbation(
+    organism: any,
+    patterns: UsagePattern[],
+    feedback: EcosystemFeedback,
+    now: number = this.clock.now()
+  ): {
+    reviewed: any;
+    survived: MutationRecord[];
+    rolledBack: MutationRecord[];
+  } {
+    const reviewed = structuredClone(organism);
+    const fitness = this.evaluateFitness(organism, patterns, feedback);
+    const due: MutationRecord[] = (reviewed.probation || [])
+      .filter((entry: MutationRecord) => now - entry.applied_at >= this.PROBATION_WINDOW);
+    
+    // Each mutation is judged against the organism living without it, in the same environment
+    const judged = due.map(entry => {
+      const without = structuredClone(organism);
+      this.undo(without, entry);
+      return { ...entry, fitness_after: fitness, fitness_without: this.evaluateFitness(without, patterns, feedback), settled_at: now };
+    });
+    
+    const survived = judged
+      .filter(entry => fitness >= entry.fitness_without)
+      .map((entry): MutationRecord => ({ ...entry, status: 'survived' }));
+    const rolledBack = judged
+      .filter(entry => fitness < entry.fitness_without)
+      .map((entry): MutationRecord => ({ ...entry, status: 'rolled_back' }));
+    
+    // Survivors join the accepted set first so the rollbacks below can see them
+    reviewed.probation = reviewed.probation?.filter((entry: MutationRecord) => !due.includes(entry)) || [];
+    reviewed.successful_mutations = [...(reviewed.successful_mutations || []), ...survived];
+    
+    // Newest first, so each inverse sees the world its mutation left behind
+    [...rolledBack].reverse().forEach(entry => this.undo(reviewed, entry));
+    reviewed.failed_mutations = [...(reviewed.failed_mutations || []), ...rolledBack];
+    
+    return { reviewed, survived, rolledBack };
+  }
+  
+  // Manual rollback of a mutation still on probation or already accepted
+  revertMutation(organism: any, id: string, now: number = this.clock.now()): {
+    reverted: any;
+    record: MutationRecord;
+  } {
+    const reverted = structuredClone(organism);
+    
+    for (const list of ['probation', 'successful_mutations']) {
+      const entries: MutationRecord[] = reverted[list] || [];
+      const index = entries.findIndex(entry => entry?.id === id);
+      if (index < 0) continue;
+      
+      const [entry] = entries.splice(index, 1);
+      this.undo(reverted, entry);
+      
+      const record: MutationRecord = { ...entry, status: 'reverted', settled_at: now };
+      reverted.failed_mutations = [...(reverted.failed_mutations || []), record];
+      return { reverted, record };
+    }
+    
+    const failed = (reverted.failed_mutations || []).some((entry: MutationRecord) => entry?.id === id);
+    throw new Error(failed ? `Mutation ${id} was already rolled back` : `Unknown mutation ${id}`);
+  }
+  
+  private undo(organism: any, entry: MutationRecord): void {
+    // Particles go whether or not the target still exists
+    if (Array.isArray(organism.state?.mutations)) {
+      organism.state.mutations = organism.state.mutations.filter((m: any) => m.id !== entry.id);
+    }
+    
+    // A later, still-live overwrite of this target (or an ancestor) hides our effect;
+    // correct its restore point instead of the live value
+    const shadow = this.liveMutations(organism)
+      .filter(other =>
+        other.inverse.op === 'restore' &&
+        (entry.target === other.target || entry.target.startsWith(`${other.target}.`)) &&
+        this.isLater(other, entry))
+      .sort((a, b) => this.isLater(a, b) ? 1 : -1)[0];
+    
+    if (!shadow) {
+      this.invert(organism, entry.target, entry.inverse);
+      return;
+    }
+    
+    const relative = entry.target.slice(shadow.target.length + 1);
+    const snapshot: any = shadow.inverse.existed ? { value: shadow.inverse.value } : {};
+    this.invert(snapshot, relative ? `value.${relative}` : 'value', entry.inverse);
+    
+    shadow.inverse = { ...shadow.inverse, value: snapshot.value, existed: 'value' in snapshot };
+  }
+  
+  private invert(root: any, target: string, inverse: MutationInverse): void {
+    if (!isSafePath(target)) return;
+    
+    const path = target.split('.');
+    const key = path[path.length - 1];
+    const parent = path.slice(0, -1).reduce((node, step) => isPlainObject(node) && hasOwn(node, step) ? node[step] : undefined, root);
+    if (!isPlainObject(parent)) return;
+    
+    mutationOperators.invert(parent, key, inverse);
+  }
+  
+  private isLater(a: MutationRecord, b: MutationRecord): boolean {
+    const index = (entry: MutationRecord) => Number(entry.id.split('.').pop());
+    return a.applied_at !== b.applied_at ? a.applied_at > b.applied_at : index(a) > index(b);
+  }
+  
+  private liveMutations(organism: any): MutationRecord[] {
+    return [...(organism.probation || []), ...(organism.successful_mutations || [])]
+      .filter((entry: any) => entry?.inverse);
+  }
+  
+  // Fitness evaluation: half the organism itself, half what its environment gives back
   evaluateFitness(
     organism: any,
     patterns: UsagePattern[],
     feedback: EcosystemFeedback
   ): number {
+    return this.organismFitness(organism, patterns) * 0.5 + this.environmentFitness(patterns, feedback) * 0.5;
+  }
+  
+  // The organism's own resonance (its interactions, recent success and how its mutations fared)
+  // and how well its behaviors suit the way it is used
+  organismFitness(organism: any, patterns: UsagePattern[]): number {
+    return resonance.organismResonance(organism || {}) * 0.5 + this.adaptation(organism, patterns) * 0.5;
+  }
+  
+  environmentFitness(patterns: UsagePattern[], feedback: EcosystemFeedback): number {
     let fitness = 0;
     
     // Base fitness from successful patterns
-    const successRate = patterns.reduce((sum, p) => sum + p.success_rate, 0) / patterns.length;
+    const successRate = patterns.length
+      ? patterns.reduce((sum, p) => sum + p.success_rate, 0) / patterns.length
+      : 0;
     fitness += successRate * 0.3;
     
     // Ecosystem integration
@@ -307,6 +624,183 @@ export class GeneticDriftEngine {
     
     return fitness;
   }
+  
+  // A behavior used more than its fair share pays off when it is efficient; one used less costs
+  // for as long as it is kept up. 0.5 is an organism that has not specialized either way
+  private adaptation(organism: any, patterns: UsagePattern[]): number {
+    const usage = patterns.map(p => Math.max(0, p.frequency * p.success_rate * p.resonance_impact));
+    const total = usage.reduce((sum, u) => sum + u, 0);
+    if (total === 0) return 0.5;
+    
+    const behaviors = isPlainObject(organism?.behaviors) ? organism.behaviors : {};
+    const investment = (event: string) => {
+      const behavior = hasOwn(behaviors, event) ? behaviors[event] : undefined;
+      if (behavior === 'deprecate') return 0;
+      
+      const efficiency = isPlainObject(behavior) && typeof behavior.efficiency === 'number' ? Math.max(0, behavior.efficiency) : 1;
+      return efficiency / (1 + efficiency);
+    };
+    
+    const fair = 1 / patterns.length;
+    const fit = patterns.reduce((sum, p, i) => sum + (usage[i] / total - fair) * investment(p.event), 0);
+    return Math.min(1, Math.max(0, 0.5 + fit));
+  }
+  
+  // One generation: score, keep elites, breed the rest from selected parents, drift the offspring
+  evolvePopulation(
+    population: Population,
+    options: Partial<PopulationOptions> = {},
+    seed: number = this.random.nextSeed(),
+    timestamp: number = this.clock.now()
+  ): PopulationStep {
+    const config = GeneticDriftEngine.populationOptions(options);
+    if (population.members.length === 0) {
+      throw new Error('Cannot evolve an empty population');
+    }
+    
+    const random = new SeededRandom(seed);
+    const generation = population.generation + 1;
+    
+    const scored = population.members
+      .map(member => ({ member, fitness: this.evaluateFitness(member.organism, member.patterns, member.feedback) }))
+      .sort((a, b) => b.fitness - a.fitness);
+    
+    // Elites cross into the next generation untouched
+    const elites = scored
+      .slice(0, Math.min(config.elites, config.size))
+      .map(({ member }) => structuredClone(member));
+    
+    const offspring: PopulationMember[] = [];
+    while (elites.length + offspring.length < config.size) {
+      const a = this.selectParent(scored, config, random);
+      const b = this.selectParent(scored, config, random);
+      const [fitter, other] = a.fitness >= b.fitness ? [a.member, b.member] : [b.member, a.member];
+      
+      const child = random.next() < config.crossover_rate
+        ? this.crossover(fitter, other, random)
+        : { ...structuredClone(fitter), parents: [fitter.id] };
+      
+      child.id = `${fitter.id.split('~')[0]}~g${generation}.${offspring.length}`;
+      child.organism = this.applyGeneticDrift(
+        child.organism, child.patterns, child.feedback, random.nextSeed(), timestamp
+      ).mutated;
+      
+      offspring.push(child);
+    }
+    
+    return {
+      population: { generation, members: [...elites, ...offspring] },
+      seed,
+      ranking: scored.map(({ member, fitness }) => ({ id: member.id, fitness })),
+      elites: elites.map(member => member.id)
+    };
+  }
+  
+  private selectParent(
+    scored: Array<{ member: PopulationMember; fitness: number }>,
+    config: PopulationOptions,
+    random: SeededRandom
+  ): { member: PopulationMember; fitness: number } {
+    const pick = () => scored[Math.floor(random.next() * scored.length)];
+    
+    if (config.selection === 'roulette') {
+      const total = scored.reduce((sum, s) => sum + Math.max(0, s.fitness), 0);
+      if (total === 0) return pick();
+      
+      let spin = random.next() * total;
+      for (const candidate of scored) {
+        spin -= Math.max(0, candidate.fitness);
+        if (spin <= 0) return candidate;
+      }
+      return scored[scored.length - 1];
+    }
+    
+    // Tournament: best of k random contenders
+    let best = pick();
+    for (let i = 1; i < config.tournament_size; i++) {
+      const contender = pick();
+      if (contender.fitness > best.fitness) best = contender;
+    }
+    return best;
+  }
+  
+  // Uniform crossover of state and behaviors, single-point crossover of mutation sets
+  private crossover(fitter: PopulationMember, other: PopulationMember, random: SeededRandom): PopulationMember {
+    const organism = structuredClone(fitter.organism);
+    const stateA = fitter.organism.state || {};
+    const stateB = other.organism.state || {};
+    
+    organism.state = this.uniform(stateA, stateB, random, ['mutations']);
+    if (fitter.organism.behaviors || other.organism.behaviors) {
+      organism.behaviors = this.uniform(fitter.organism.behaviors || {}, other.organism.behaviors || {}, random);
+    }
+    
+    organism.state.mutations = this.splice(stateA.mutations, stateB.mutations, random);
+    if (fitter.organism.successful_mutations || other.organism.successful_mutations) {
+      organism.successful_mutations = this.splice(
+        fitter.organism.successful_mutations, other.organism.successful_mutations, random
+      );
+    }
+    
+    return {
+      id: fitter.id,
+      organism,
+      patterns: this.blendPatterns(fitter.patterns, other.patterns),
+      feedback: this.blendFeedback(fitter.feedback, other.feedback),
+      parents: [fitter.id, other.id]
+    };
+  }
+  
+  // Each key from one parent or the other at random; a key only one parent has comes from that parent
+  private uniform(a: Record<string, any>, b: Record<string, any>, random: SeededRandom, skip: string[] = []): Record<string, any> {
+    const child: Record<string, any> = {};
+    new Set([...Object.keys(a), ...Object.keys(b)]).forEach(key => {
+      if (skip.includes(key)) return;
+      
+      const source = !(key in b) || (key in a && random.next() < 0.5) ? a : b;
+      child[key] = structuredClone(source[key]);
+    });
+    return child;
+  }
+  
+  private splice(a: any[] = [], b: any[] = [], random: SeededRandom): any[] {
+    const cutA = Math.floor(random.next() * (a.length + 1));
+    const cutB = Math.floor(random.next() * (b.length + 1));
+    
+    return structuredClone([...a.slice(0, cutA), ...b.slice(cutB)]);
+  }
+  
+  // The child lives in the average of its parents' environments
+  private blendPatterns(a: UsagePattern[], b: UsagePattern[]): UsagePattern[] {
+    const others = new Map(b.map(p => [p.event, p]));
+    const blended = a.map(p => {
+      const q = others.get(p.event);
+      if (!q) return { ...p };
+      
+      return {
+        event: p.event,
+        frequency: (p.frequency + q.frequency) / 2,
+        success_rate: (p.success_rate + q.success_rate) / 2,
+        resonance_impact: (p.resonance_impact + q.resonance_impact) / 2,
+        timestamp: Math.max(p.timestamp, q.timestamp)
+      };
+    });
+    
+    const seen = new Set(a.map(p => p.event));
+    return [...blended, ...b.filter(p => !seen.has(p.event)).map(p => ({ ...p }))];
+  }
+  
+  private blendFeedback(a: EcosystemFeedback, b: EcosystemFeedback): EcosystemFeedback {
+    const mean = (key: keyof EcosystemFeedback) => (a[key] + b[key]) / 2;
+    
+    return {
+      interactions: mean('interactions'),
+      resonance_received: mean('resonance_received'),
+      clones_spawned: mean('clones_spawned'),
+      mutations_survived: mean('mutations_survived'),
+      energy_flow: mean('energy_flow')
+    };
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,261 @@
+// 🌊 Glyphflow Engine
+// Reads trigger → action rules from YAML and dispatches them to organism behaviors
+
+import * as yaml from 'js-yaml';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface GlyphflowRule {
+  trigger: string;
+  action: string;
+  mutate?: string;
+  target?: string;
+  targets?: string[];
+  inherit?: string[];
+  constraint?: string;
+  feedback?: string;
+  sync_all?: boolean;
+  updates?: string;
+  influences?: string;
+  source: string;
+}
+
+// Behaviors an organism must expose for glyphflow to drive it
+export interface GlyphflowHost {
+  mutate(target: string, rule?: GlyphflowRule): Promise<void>;
+  replicate(rule?: GlyphflowRule): Promise<unknown>;
+  alterStructure(targets: string[], rule?: GlyphflowRule): Promise<void>;
+  glyphSync(rule?: GlyphflowRule): Promise<void>;
+  observe(rule?: GlyphflowRule): void;
+  applyFeedback(channel: string, rule?: GlyphflowRule): Promise<void>;
+}
+
+type KeyKind = 'string' | 'string[]' | 'boolean';
+
+interface ActionSpec {
+  handler: keyof GlyphflowHost;
+  keys: Record<string, KeyKind>;
+  invoke(host: GlyphflowHost, rule: GlyphflowRule): Promise<unknown> | void;
+}
+
+const ACTIONS: Record<string, ActionSpec> = {
+  'mutate': {
+    handler: 'mutate',
+    keys: { mutate: 'string', feedback: 'string' },
+    invoke: (host, rule) => host.mutate(rule.mutate || 'self', rule)
+  },
+  'fork': {
+    handler: 'replicate',
+    keys: { target: 'string', inherit: 'string[]', feedback: 'string' },
+    invoke: (host, rule) => host.replicate(rule)
+  },
+  'alter_structure': {
+    handler: 'alterStructure',
+    keys: { targets: 'string[]', constraint: 'string', feedback: 'string' },
+    invoke: (host, rule) => host.alterStructure(rule.targets || [], rule)
+  },
+  'bidirectional_sync': {
+    handler: 'glyphSync',
+    keys: { sync_all: 'boolean' },
+    invoke: (host, rule) => host.glyphSync(rule)
+  },
+  'self_reflection': {
+    handler: 'observe',
+    keys: { updates: 'string', influences: 'string' },
+    invoke: (host, rule) => host.observe(rule)
+  }
+};
+
+// Closed vocabularies for the extra rule keys
+const INHERITABLE = ['state', 'events', 'successful_mutations', 'mutation_history', 'resonance_patterns'];
+const STRUCTURES = ['manifest.yaml', 'mind.svg', 'memory.json'];
+const CONSTRAINTS = ['maintain_core_identity'];
+const FEEDBACK_CHANNELS = ['genetic_drift'];
+
+export class GlyphflowError extends Error {
+  constructor(readonly location: string, detail: string) {
+    super(`${location}: ${detail}`);
+    this.name = 'GlyphflowError';
+  }
+}
+
+export class GlyphflowEngine {
+  private readonly rules = new Map<string, GlyphflowRule>();
+  
+  constructor(rules: GlyphflowRule[] = []) {
+    rules.forEach(rule => {
+      // Later sources extend earlier ones for the same trigger and action
+      const previous = this.rules.get(rule.trigger);
+      const extend = previous && previous.action === rule.action;
+      this.rules.set(rule.trigger, extend ? { ...previous, ...rule } : rule);
+    });
+  }
+  
+  // Load 🧬.glyphflow.yaml, then the glyphflow section of 🧬.observable.yaml
+  static fromOrganism(root: string): GlyphflowEngine {
+    const sources = ['🧬.glyphflow.yaml', '🧬.observable.yaml']
+      .map(file => path.join(root, file))
+      .filter(file => fs.existsSync(file));
+    
+    return new GlyphflowEngine(
+      sources.flatMap(file => GlyphflowEngine.loadRules(file))
+    );
+  }
+  
+  static loadRules(file: string): GlyphflowRule[] {
+    const source = path.basename(file);
+    let document: any;
+    
+    try {
+      document = yaml.load(fs.readFileSync(file, 'utf8'));
+    } catch (e) {
+      throw new GlyphflowError(source, `invalid YAML (${(e as Error).message})`);
+    }
+    
+    return GlyphflowEngine.parseRules(document?.glyphflow, source);
+  }
+  
+  static parseRules(raw: unknown, source: string): GlyphflowRule[] {
+    if (raw === undefined || raw === null) return [];
+    if (!Array.isArray(raw)) {
+      throw new GlyphflowError(`${source}#glyphflow`, 'expected a list of rules');
+    }
+    
+    const seen = new Set<string>();
+    
+    return raw.map((entry, i) => {
+      const rule = GlyphflowEngine.validateRule(entry, `${source}#glyphflow[${i}]`);
+      if (seen.has(rule.trigger)) {
+        throw new GlyphflowError(`${source}#glyphflow[${i}]`, `duplicate trigger '${rule.trigger}'`);
+      }
+      seen.add(rule.trigger);
+      return { ...rule, source };
+    });
+  }
+  
+  private static validateRule(entry: unknown, location: string): GlyphflowRule {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      throw new GlyphflowError(location, 'expected a mapping with trigger and action');
+    }
+    
+    const rule = entry as Record<string, unknown>;
+    
+    if (typeof rule.trigger !== 'string' || rule.trigger === '') {
+      throw new GlyphflowError(`${location}.trigger`, 'must be a non-empty string');
+    }
+    if (typeof rule.action !== 'string') {
+      throw new GlyphflowError(`${location}.action`, 'must be a string');
+    }
+    
+    const spec = ACTIONS[rule.action];
+    if (!spec) {
+      throw new GlyphflowError(
+        `${location}.action`,
+        `unknown action '${rule.action}' (known: ${Object.keys(ACTIONS).join(', ')})`
+      );
+    }
+    
+    Object.entries(rule).forEach(([key, value]) => {
+      if (key === 'trigger' || key === 'action') return;
+      
+      const kind = spec.keys[key];
+      if (!kind) {
+        throw new GlyphflowError(
+          `${location}.${key}`,
+          `not supported by action '${rule.action}' (allowed: ${Object.keys(spec.keys).join(', ')})`
+        );
+      }
+      if (!GlyphflowEngine.matchesKind(value, kind)) {
+        throw new GlyphflowError(`${location}.${key}`, `must be ${kind}`);
+      }
+    });
+    
+    GlyphflowEngine.checkVocabulary(rule.inherit as string[] | undefined, INHERITABLE, `${location}.inherit`);
+    GlyphflowEngine.checkVocabulary(rule.targets as string[] | undefined, STRUCTURES, `${location}.targets`);
+    GlyphflowEngine.checkVocabulary(
+      rule.constraint ? [rule.constraint as string] : undefined, CONSTRAINTS, `${location}.constraint`
+    );
+    GlyphflowEngine.checkVocabulary(
+      rule.feedback ? [rule.feedback as string] : undefined, FEEDBACK_CHANNELS, `${location}.feedback`
+    );
+    
+    return rule as unknown as GlyphflowRule;
+  }
+  
+  private static matchesKind(value: unknown, kind: KeyKind): boolean {
+    switch (kind) {
+      case 'string':
+        return typeof value === 'string';
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'string[]':
+        return Array.isArray(value) && value.every(v => typeof v === 'string');
+    }
+  }
+  
+  private static checkVocabulary(values: string[] | undefined, allowed: string[], location: string): void {
+    values?.forEach(value => {
+      if (!allowed.includes(value)) {
+        throw new GlyphflowError(location, `unknown value '${value}' (allowed: ${allowed.join(', ')})`);
+      }
+    });
+  }
+  
+  triggers(): string[] {
+    return [...this.rules.keys()];
+  }
+  
+  ruleFor(trigger: string): GlyphflowRule | undefined {
+    return this.rules.get(trigger);
+  }
+  
+  // Verify every rule resolves to a callable handler before the organism runs
+  bind(host: GlyphflowHost): this {
+    this.rules.forEach(rule => {
+      const spec = ACTIONS[rule.action];
+      if (typeof (host as any)[spec.handler] !== 'function') {
+        throw new GlyphflowError(
+          `${rule.source}#${rule.trigger}`,
+          `action '${rule.action}' needs handler '${spec.handler}' which the organism does not implement`
+        );
+      }
+      if (rule.feedback && typeof host.applyFeedback !== 'function') {
+        throw new GlyphflowError(
+          `${rule.source}#${rule.trigger}`,
+          `feedback '${rule.feedback}' needs handler 'applyFeedback'`
+        );
+      }
+    });
+    
+    return this;
+  }
+  
+  async dispatch(trigger: string, host: GlyphflowHost): Promise<void> {
+    const rule = this.rules.get(trigger);
+    if (!rule) {
+      throw new GlyphflowError(trigger, `no glyphflow rule for trigger (known: ${this.triggers().join(', ')})`);
+    }
+    
+    await ACTIONS[rule.action].invoke(host, rule);
+    
+    if (rule.feedback) {
+      await host.applyFeedback(rule.feedback, rule);
+    }
+  }
+}
+
+// CLI usage: validate the organism's glyphflow wiring
+if (require.main === module) {
+  const root = process.argv[2] || process.cwd();
+  
+  try {
+    const engine = GlyphflowEngine.fromOrganism(root);
+    engine.triggers().forEach(trigger => {
+      const rule = engine.ruleFor(trigger)!;
+      console.log(`🌊 ${trigger} → ${rule.action} (${rule.source})`);
+    });
+  } catch (e) {
+    console.error(`❌ ${(e as Error).message}`);
+    process.exit(1);
+  }
+}
\ No newline at end of file
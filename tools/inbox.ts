@@ -0,0 +1,85 @@
+// 📬 Organism Inbox
+// File mailbox through which a running organism receives triggers
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from './atomic';
+
+export interface InboxMessage {
+  event: string;
+  args?: string[];
+  requested_at: number;
+}
+
+export class OrganismInbox {
+  private readonly inboxDir: string;
+  private readonly pidFile: string;
+  
+  constructor(agentDir: string) {
+    this.inboxDir = path.join(agentDir, '.inbox');
+    this.pidFile = path.join(agentDir, '.organism.pid');
+  }
+  
+  // Pid of the live organism, or null when it is dormant
+  runningPid(): number | null {
+    if (!fs.existsSync(this.pidFile)) return null;
+    
+    const pid = Number(fs.readFileSync(this.pidFile, 'utf8').trim());
+    try {
+      process.kill(pid, 0);
+      return pid;
+    } catch {
+      return null; // Stale pid file from a crashed run
+    }
+  }
+  
+  claim(): void {
+    writeFileAtomic(this.pidFile, String(process.pid));
+  }
+  
+  release(): void {
+    if (this.runningPid() === process.pid) {
+      fs.rmSync(this.pidFile, { force: true });
+    }
+  }
+  
+  post(event: string, args: string[] = [], requestedAt: number = Date.now()): string {
+    fs.mkdirSync(this.inboxDir, { recursive: true });
+    
+    const message: InboxMessage = { event, args, requested_at: requestedAt };
+    const file = path.join(this.inboxDir, `${requestedAt}-${process.pid}-${event}.json`);
+    writeFileAtomic(file, JSON.stringify(message));
+    
+    return file;
+  }
+  
+  // Oldest first; each message is removed as it is taken
+  drain(): InboxMessage[] {
+    if (!fs.existsSync(this.inboxDir)) return [];
+    
+    return fs.readdirSync(this.inboxDir)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .flatMap(file => {
+        const full = path.join(this.inboxDir, file);
+        try {
+          const message = JSON.parse(fs.readFileSync(full, 'utf8')) as InboxMessage;
+          fs.rmSync(full);
+          return [message];
+        } catch {
+          return []; // Raced with another reader or half-written
+        }
+      });
+  }
+  
+  async waitForPickup(file: string, timeoutMs: number = 5000): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    
+    while (Date.now() < deadline) {
+      if (!fs.existsSync(file)) return true;
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    
+    return !fs.existsSync(file);
+  }
+}
\ No newline at end of file
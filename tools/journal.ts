@@ -0,0 +1,272 @@
+// 📓 Organism Journal
+// Append-only JSONL record of every change, replayable to any point in the organism's life
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from './atomic';
+
+export type JournalKind =
+  | 'genesis' | 'external' | 'trigger' | 'observation' | 'mutation' | 'replication' | 'sync' | 'checkpoint';
+
+export type PatchOp =
+  | { op: 'set'; path: Array<string | number>; value: unknown }
+  | { op: 'delete'; path: Array<string | number> }
+  | { op: 'splice'; path: Array<string | number>; drop: number; append: unknown[] };
+
+export interface JournalEntry {
+  seq: number;
+  timestamp: number;
+  kind: JournalKind;
+  generation: number;
+  detail?: Record<string, unknown>;
+  patch: PatchOp[];
+}
+
+export interface OrganismSnapshot {
+  manifest: any;
+  memory: any;
+}
+
+export interface JournalPoint {
+  seq?: number;
+  until?: number;
+  generation?: number;
+}
+
+export interface JournalChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Entries between checkpoints. At each one the journal so far is archived as journal.<seq>.jsonl,
+// ending just before the checkpoint at <seq>, and a fresh journal starts with the whole state
+const CHECKPOINT_EVERY = 1000;
+
+export class OrganismJournal {
+  private tip: OrganismSnapshot | null = null;
+  private nextSeq = 0;
+  private sinceCheckpoint = 0;
+  private loaded = false;
+  
+  constructor(private readonly file: string, private readonly checkpointEvery: number = CHECKPOINT_EVERY) {}
+  
+  // Every entry ever written: the archived segments, oldest first, then the live journal
+  entries(): JournalEntry[] {
+    return [...this.segments().flatMap(segment => this.read(segment)), ...this.read(this.file)];
+  }
+  
+  // Archived stretches, in the order they were written
+  segments(): string[] {
+    const dir = path.dirname(this.file);
+    const name = path.basename(this.file, '.jsonl').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`^${name}\\.(\\d+)\\.jsonl$`);
+    if (!fs.existsSync(dir)) return [];
+    
+    return fs.readdirSync(dir)
+      .map(file => ({ file, seq: pattern.exec(file)?.[1] }))
+      .filter(segment => segment.seq !== undefined)
+      .sort((a, b) => Number(a.seq) - Number(b.seq))
+      .map(segment => path.join(dir, segment.file));
+  }
+  
+  // Append whatever changed since the last entry; quiet kinds are skipped when nothing did
+  record(
+    kind: JournalKind,
+    state: OrganismSnapshot,
+    detail?: Record<string, unknown>,
+    timestamp: number = Date.now()
+  ): JournalEntry | null {
+    this.load();
+    
+    const next = structuredClone(state);
+    const patch = diffPatch(this.tip, next, []);
+    const quiet = kind === 'observation' || kind === 'sync' || kind === 'external';
+    if (patch.length === 0 && quiet) return null;
+    
+    const entry: JournalEntry = {
+      seq: this.nextSeq++,
+      timestamp,
+      kind: this.tip === null ? 'genesis' : kind,
+      generation: next.memory?.generation ?? 0,
+      ...(detail ? { detail } : {}),
+      patch
+    };
+    
+    fs.appendFileSync(this.file, JSON.stringify(entry) + '\n');
+    this.tip = next;
+    
+    if (++this.sinceCheckpoint >= this.checkpointEvery) this.checkpoint(timestamp);
+    return entry;
+  }
+  
+  // Archive the journal as it stands and start the next one from the whole state. Nothing is
+  // rewritten or dropped; loading only has to read from the checkpoint on
+  private checkpoint(timestamp: number): void {
+    const entry: JournalEntry = {
+      seq: this.nextSeq++,
+      timestamp,
+      kind: 'checkpoint',
+      generation: this.tip?.memory?.generation ?? 0,
+      patch: [{ op: 'set', path: [], value: this.tip }]
+    };
+    
+    fs.renameSync(this.file, this.file.replace(/\.jsonl$/, '') + `.${entry.seq}.jsonl`);
+    writeFileAtomic(this.file, JSON.stringify(entry) + '\n');
+    this.sinceCheckpoint = 0;
+  }
+  
+  // Catch the journal up with files changed behind its back (hand edits, older tools)
+  reconcile(state: OrganismSnapshot, timestamp: number = Date.now()): JournalEntry | null {
+    return this.record('external', state, undefined, timestamp);
+  }
+  
+  // State after the last entry at or before the point
+  replay(point: JournalPoint = {}): { state: OrganismSnapshot | null; entry: JournalEntry | null } {
+    let state: any = null;
+    let last: JournalEntry | null = null;
+    
+    for (const entry of this.entries()) {
+      if (point.seq !== undefined && entry.seq > point.seq) break;
+      if (point.until !== undefined && entry.timestamp > point.until) break;
+      if (point.generation !== undefined && entry.generation > point.generation) break;
+      
+      state = applyPatch(state, entry.patch);
+      last = entry;
+    }
+    
+    return { state, entry: last };
+  }
+  
+  // Accepts seq:N, gen:N, an ISO date or epoch millis, or "latest"
+  static parsePoint(spec: string): JournalPoint {
+    if (spec === 'latest' || spec === 'now') return {};
+    
+    const [prefix, value] = spec.split(':');
+    if (value !== undefined && /^\d+$/.test(value)) {
+      if (prefix === 'seq') return { seq: Number(value) };
+      if (prefix === 'gen' || prefix === 'generation') return { generation: Number(value) };
+    }
+    
+    const until = /^\d+$/.test(spec) ? Number(spec) : Date.parse(spec);
+    if (Number.isNaN(until)) {
+      throw new Error(`Not a journal point: ${spec} (use seq:N, gen:N, a date or "latest")`);
+    }
+    return { until };
+  }
+  
+  static diff(before: unknown, after: unknown): JournalChange[] {
+    const changes: JournalChange[] = [];
+    compare(before, after, '', changes);
+    return changes;
+  }
+  
+  // From the live journal's last checkpoint when it has one; a journal that never reached a
+  // checkpoint, or lost its live file between archiving and restarting, is replayed in full
+  private load(): void {
+    if (this.loaded) return;
+    
+    const live = this.read(this.file);
+    const start = live.map(e => e.kind).lastIndexOf('checkpoint');
+    const entries = start >= 0 ? live.slice(start) : this.entries();
+    const since = entries.map(e => e.kind).lastIndexOf('checkpoint');
+    
+    this.tip = entries.reduce((state, entry) => applyPatch(state, entry.patch), null as any);
+    this.nextSeq = entries.length ? entries[entries.length - 1].seq + 1 : 0;
+    this.sinceCheckpoint = entries.length - 1 - since;
+    this.loaded = true;
+  }
+  
+  private read(file: string): JournalEntry[] {
+    if (!fs.existsSync(file)) return [];
+    
+    const lines = fs.readFileSync(file, 'utf8').split('\n').filter(line => line.trim());
+    return lines.flatMap((line, i) => {
+      try {
+        return [JSON.parse(line) as JournalEntry];
+      } catch {
+        // A torn final line is what a crash mid-append leaves behind
+        if (i === lines.length - 1) {
+          console.warn(`⚠️ Ignoring incomplete journal entry at ${path.basename(file)}:${i + 1}`);
+          return [];
+        }
+        throw new Error(`${file}:${i + 1}: corrupt journal entry`);
+      }
+    });
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+function diffPatch(a: unknown, b: unknown, path: Array<string | number>): PatchOp[] {
+  if (same(a, b)) return [];
+  
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const removed = Object.keys(a)
+      .filter(key => !(key in b))
+      .map(key => ({ op: 'delete' as const, path: [...path, key] }));
+    
+    return [...removed, ...Object.keys(b).flatMap(key => diffPatch(a[key], b[key], [...path, key]))];
+  }
+  
+  // Bounded lists slide: old entries fall off the front while new ones land at the back
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const left = a.map(item => JSON.stringify(item));
+    const right = b.map(item => JSON.stringify(item));
+    
+    for (let drop = 0; drop <= left.length; drop++) {
+      const kept = left.length - drop;
+      if (kept > right.length) continue;
+      if (left.slice(drop).every((item, i) => item === right[i])) {
+        return [{ op: 'splice', path, drop, append: b.slice(kept) }];
+      }
+    }
+  }
+  
+  return [{ op: 'set', path, value: b }];
+}
+
+function applyPatch(state: any, patch: PatchOp[]): any {
+  let root = state;
+  
+  patch.forEach(op => {
+    if (op.path.length === 0) {
+      root = op.op === 'set' ? structuredClone(op.value)
+        : op.op === 'splice' ? [...root.slice(op.drop), ...structuredClone(op.append)]
+        : null;
+      return;
+    }
+    
+    const parent = op.path.slice(0, -1).reduce((node: any, key) => node[key], root);
+    const key = op.path[op.path.length - 1];
+    
+    if (op.op === 'set') parent[key] = structuredClone(op.value);
+    if (op.op === 'delete') delete parent[key];
+    if (op.op === 'splice') parent[key] = [...parent[key].slice(op.drop), ...structuredClone(op.append)];
+  });
+  
+  return root;
+}
+
+function compare(a: unknown, b: unknown, path: string, changes: JournalChange[]): void {
+  if (same(a, b)) return;
+  
+  if (isPlainObject(a) && isPlainObject(b)) {
+    new Set([...Object.keys(a), ...Object.keys(b)]).forEach(key =>
+      compare(a[key], b[key], path ? `${path}.${key}` : key, changes)
+    );
+    return;
+  }
+  
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      compare(a[i], b[i], `${path}[${i}]`, changes);
+    }
+    return;
+  }
+  
+  changes.push({ path, before: a, after: b });
+}
\ No newline at end of file
@@ -0,0 +1,211 @@
+// 🌳 Lineage
+// Materializes clones on disk and reads the family tree back out of them
+
+import * as yaml from 'js-yaml';
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from './atomic';
+import { schemas, OrganismManifest, OrganismMemory } from './schema';
+import { YAMLtoSVGGenerator } from './yaml-to-svg';
+
+export interface CloneSpec {
+  id: string;
+  generation: number;
+  birth: number;
+  inherited: Record<string, any>;
+  parent: { manifest: OrganismManifest; memory: OrganismMemory };
+}
+
+export interface LineageNode {
+  id: string;
+  parent: string | null;
+  generation: number;
+  birth: number;
+  location: string;
+  version: string;
+  resonance: number;
+  energy: number;
+  successful_mutations: number;
+  generations_lived: number;
+  children: string[];
+  descendants: number;
+}
+
+export interface LineageTreeNode extends Omit<LineageNode, 'children'> {
+  children: LineageTreeNode[];
+}
+
+// Keys the manifest carries; everything else inherited lives in memory
+const MANIFEST_KEYS = ['state', 'events'];
+
+export class Lineage {
+  // Write manifest, memory and svg for a new clone; returns its directory
+  materialize(clonesDir: string, spec: CloneSpec): string {
+    const dir = path.join(clonesDir, spec.id);
+    if (fs.existsSync(dir)) {
+      throw new Error(`Clone ${spec.id} already exists at ${dir}`);
+    }
+    
+    const manifest: OrganismManifest = {
+      ...structuredClone(spec.parent.manifest),
+      state: { self: true },
+      events: [...spec.parent.manifest.events]
+    };
+    
+    const memory: OrganismMemory = {
+      schema: schemas.currentVersion('memory'),
+      id: spec.id,
+      parent: spec.parent.memory.id,
+      generation: spec.generation,
+      birth: spec.birth,
+      mutation_history: [],
+      resonance_patterns: { ...spec.parent.memory.resonance_patterns },
+      interaction_graph: { nodes: ['self'], edges: [] },
+      evolution_trajectory: {
+        ...structuredClone(spec.parent.memory.evolution_trajectory),
+        current_state: 'embryonic'
+      },
+      observations: [],
+      successful_mutations: [],
+      failed_mutations: []
+    };
+    
+    Object.entries(spec.inherited).forEach(([key, value]) => {
+      if (value === undefined) return;
+      
+      if (MANIFEST_KEYS.includes(key)) {
+        (manifest as any)[key] = structuredClone(value);
+      } else {
+        memory[key] = structuredClone(value);
+      }
+    });
+    
+    // Validate before anything touches disk - a malformed clone is never born
+    schemas.parse('manifest', manifest, `${spec.id}/manifest.yaml`);
+    schemas.parse('memory', memory, `${spec.id}/memory.json`);
+    
+    fs.mkdirSync(dir, { recursive: true });
+    const manifestPath = path.join(dir, 'manifest.yaml');
+    const memoryPath = path.join(dir, 'memory.json');
+    
+    writeFileAtomic(manifestPath, yaml.dump(manifest));
+    writeFileAtomic(memoryPath, JSON.stringify(memory, null, 2));
+    writeFileAtomic(path.join(dir, 'mind.svg'), new YAMLtoSVGGenerator(manifestPath, memoryPath).generateSVG());
+    
+    return dir;
+  }
+  
+  // Every organism under root: the original in agent⟁/ plus all materialized clones
+  collect(root: string, clonesDir: string = path.join(root, '🧬', 'clones')): LineageNode[] {
+    const dirs = [path.join(root, 'agent⟁'), ...this.organismDirs(clonesDir)];
+    
+    const nodes = dirs
+      .filter(dir => fs.existsSync(path.join(dir, 'memory.json')))
+      .map(dir => this.readNode(root, dir))
+      .filter((node): node is LineageNode => node !== null);
+    
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    
+    // A clone whose parent vanished becomes a root of its own
+    nodes.forEach(node => {
+      if (node.parent && byId.has(node.parent)) {
+        byId.get(node.parent)!.children.push(node.id);
+      } else {
+        node.parent = null;
+      }
+    });
+    
+    const countDescendants = (node: LineageNode): number =>
+      node.descendants = node.children.reduce((sum, id) => sum + 1 + countDescendants(byId.get(id)!), 0);
+    nodes.filter(node => node.parent === null).forEach(countDescendants);
+    
+    return nodes.sort((a, b) => a.generation - b.generation || a.birth - b.birth);
+  }
+  
+  toTree(nodes: LineageNode[]): LineageTreeNode[] {
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    const build = (node: LineageNode): LineageTreeNode => ({
+      ...node,
+      children: node.children.map(id => build(byId.get(id)!))
+    });
+    
+    return nodes.filter(node => node.parent === null).map(build);
+  }
+  
+  toDOT(nodes: LineageNode[]): string {
+    const quote = (value: string) => `"${value.replace(/"/g, '\\"')}"`;
+    
+    const lines = nodes.map(node => {
+      // Same hue scale as mind.svg: resonance 0 → red, 1 → cyan
+      const hue = (Math.min(1, Math.max(0, node.resonance)) * 0.5).toFixed(3);
+      const label = `${node.id}\\ngen ${node.generation} · v${node.version}\\n🌊 ${node.resonance.toFixed(2)} · ✅ ${node.successful_mutations} · 🌱 ${node.descendants}`;
+      
+      return `  ${quote(node.id)} [label=${quote(label)}, fillcolor="${hue} 0.6 0.95", penwidth=${(1 + Math.log2(1 + node.descendants)).toFixed(2)}];`;
+    });
+    
+    const edges = nodes
+      .filter(node => node.parent !== null)
+      .map(node => `  ${quote(node.parent!)} -> ${quote(node.id)};`);
+    
+    return [
+      'digraph lineage {',
+      '  rankdir=TB;',
+      '  node [shape=box, style="rounded,filled", fontname="monospace"];',
+      ...lines,
+      ...edges,
+      '}'
+    ].join('\n');
+  }
+  
+  private organismDirs(dir: string): string[] {
+    if (!fs.existsSync(dir)) return [];
+    
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+      .flatMap(entry => {
+        const full = path.join(dir, entry.name);
+        return [full, ...this.organismDirs(full)];
+      });
+  }
+  
+  private readNode(root: string, dir: string): LineageNode | null {
+    try {
+      const memory = schemas.load('memory', path.join(dir, 'memory.json')).data;
+      const manifestPath = path.join(dir, 'manifest.yaml');
+      const manifest = fs.existsSync(manifestPath) ? schemas.load('manifest', manifestPath).data : null;
+      
+      return {
+        id: memory.id,
+        parent: memory.parent ?? null,
+        generation: memory.generation,
+        birth: memory.birth,
+        location: path.relative(root, dir),
+        version: manifest?.version ?? '?',
+        resonance: memory.resonance_patterns.self,
+        energy: memory.evolution_trajectory.energy_level,
+        successful_mutations: memory.successful_mutations.length,
+        generations_lived: memory.mutation_history.length,
+        children: [],
+        descendants: 0
+      };
+    } catch (e) {
+      console.warn(`⚠️ Skipping ${dir}: ${(e as Error).message}`);
+      return null;
+    }
+  }
+}
+
+export const lineage = new Lineage();
+
+// CLI usage
+if (require.main === module) {
+  const [root = process.cwd(), format = 'json'] = process.argv.slice(2);
+  
+  if (format !== 'json' && format !== 'dot') {
+    console.error('Usage: ts-node lineage.ts [organism root] [json|dot]');
+    process.exit(1);
+  }
+  
+  const nodes = lineage.collect(root);
+  console.log(format === 'dot' ? lineage.toDOT(nodes) : JSON.stringify(lineage.toTree(nodes), null, 2));
+}
\ No newline at end of file
@@ -0,0 +1,207 @@
+// 🧠 Memory Store
+// Atomic, bounded persistence for the organism's memory.json
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from './atomic';
+import { schemas, Observation, ObservationAggregate, OrganismMemory } from './schema';
+
+export interface RetentionPolicy {
+  observations: number;
+  hourly: number;
+  daily: number;
+}
+
+export interface ObservationQuery {
+  from?: number;
+  to?: number;
+}
+
+export interface ObservationRange {
+  raw: Observation[];
+  hourly: ObservationAggregate[];
+  daily: ObservationAggregate[];
+}
+
+const HOUR = 3600000;
+const DAY = 24 * HOUR;
+
+export class MemoryStore {
+  static readonly DEFAULT_RETENTION: RetentionPolicy = {
+    observations: 500,
+    hourly: 168,
+    daily: 365
+  };
+  
+  readonly memory: OrganismMemory;
+  
+  constructor(
+    private readonly file: string,
+    private readonly retention: RetentionPolicy = MemoryStore.DEFAULT_RETENTION
+  ) {
+    this.memory = schemas.load('memory', file).data;
+    
+    if (!this.memory.observation_rollups) {
+      this.memory.observation_rollups = { hourly: [], daily: [] };
+    }
+    
+    // Files written before the store existed may already be oversized
+    this.compact();
+  }
+  
+  // Retention from the memory section of 🧬.observable.yaml
+  static retentionFrom(root: string): RetentionPolicy {
+    const configPath = path.join(root, '🧬.observable.yaml');
+    if (!fs.existsSync(configPath)) return MemoryStore.DEFAULT_RETENTION;
+    
+    const config = schemas.load('observable', configPath).data;
+    return MemoryStore.retentionOptions(config.memory?.retention || {}, configPath);
+  }
+  
+  // Defaults filled in; anything but a positive whole number would unbound or empty the ring buffer
+  static retentionOptions(options: Partial<Record<keyof RetentionPolicy, unknown>>, source: string = 'retention'): RetentionPolicy {
+    const config = { ...MemoryStore.DEFAULT_RETENTION, ...options };
+    const problems = (Object.keys(MemoryStore.DEFAULT_RETENTION) as Array<keyof RetentionPolicy>)
+      .filter(key => {
+        const value = config[key];
+        return typeof value !== 'number' || !Number.isInteger(value) || value < 1;
+      })
+      .map(key => `memory.retention.${key} must be an integer >= 1, got ${JSON.stringify(config[key])}`);
+    
+    if (problems.length) throw new Error(`${source}: ${problems.join('; ')}`);
+    return config as RetentionPolicy;
+  }
+  
+  record(observation: Observation): void {
+    this.memory.observations.push(observation);
+    this.compact();
+    this.save();
+  }
+  
+  // Any other change to memory goes through here so it lands atomically
+  update(mutate: (memory: OrganismMemory) => void): void {
+    mutate(this.memory);
+    this.save();
+  }
+  
+  save(): void {
+    writeFileAtomic(this.file, JSON.stringify(this.memory, null, 2));
+  }
+  
+  query(range: ObservationQuery = {}): ObservationRange {
+    const from = range.from ?? -Infinity;
+    const to = range.to ?? Infinity;
+    const rollups = this.memory.observation_rollups!;
+    
+    const overlaps = (bucket: ObservationAggregate, size: number) =>
+      bucket.start <= to && bucket.start + size > from;
+    
+    return {
+      raw: this.memory.observations.filter(o => o.timestamp >= from && o.timestamp <= to),
+      hourly: rollups.hourly.filter(b => overlaps(b, HOUR)),
+      daily: rollups.daily.filter(b => overlaps(b, DAY))
+    };
+  }
+  
+  private compact(): void {
+    const rollups = this.memory.observation_rollups!;
+    const observations = this.memory.observations;
+    
+    // Raw overflow → hourly buckets
+    const overflow = observations.length - this.retention.observations;
+    if (overflow > 0) {
+      observations.splice(0, overflow).forEach(o => {
+        this.fold(rollups.hourly, this.aggregateOf(o), HOUR, 'hour');
+      });
+    }
+    
+    // Hourly overflow → daily buckets
+    const staleHours = rollups.hourly.length - this.retention.hourly;
+    if (staleHours > 0) {
+      rollups.hourly.splice(0, staleHours).forEach(bucket => {
+        this.fold(rollups.daily, bucket, DAY, 'day');
+      });
+    }
+    
+    // Daily overflow is forgotten
+    const staleDays = rollups.daily.length - this.retention.daily;
+    if (staleDays > 0) {
+      rollups.daily.splice(0, staleDays);
+    }
+  }
+  
+  private aggregateOf(o: Observation): ObservationAggregate {
+    return {
+      start: o.timestamp,
+      period: 'hour',
+      count: 1,
+      resonance: typeof o.resonance === 'number'
+        ? { min: o.resonance, max: o.resonance, mean: o.resonance }
+        : null,
+      success_rate: typeof o.success_rate === 'number' ? o.success_rate : null,
+      interactions: typeof o.interactions === 'number' ? o.interactions : null
+    };
+  }
+  
+  private fold(
+    buckets: ObservationAggregate[],
+    incoming: ObservationAggregate,
+    size: number,
+    period: ObservationAggregate['period']
+  ): void {
+    const start = Math.floor(incoming.start / size) * size;
+    const index = buckets.findIndex(b => b.start === start);
+    
+    if (index < 0) {
+      // Evictions normally arrive oldest first, but hand-edited memory may not
+      buckets.push({ ...incoming, start, period });
+      buckets.sort((a, b) => a.start - b.start);
+      return;
+    }
+    
+    buckets[index] = this.merge(buckets[index], incoming);
+  }
+  
+  private merge(a: ObservationAggregate, b: ObservationAggregate): ObservationAggregate {
+    const count = a.count + b.count;
+    const mean = (x: number | null, y: number | null) =>
+      x === null ? y : y === null ? x : (x * a.count + y * b.count) / count;
+    
+    const resonance = a.resonance && b.resonance
+      ? {
+          min: Math.min(a.resonance.min, b.resonance.min),
+          max: Math.max(a.resonance.max, b.resonance.max),
+          mean: mean(a.resonance.mean, b.resonance.mean)!
+        }
+      : a.resonance || b.resonance;
+    
+    return {
+      start: a.start,
+      period: a.period,
+      count,
+      resonance,
+      success_rate: mean(a.success_rate, b.success_rate),
+      interactions: mean(a.interactions, b.interactions)
+    };
+  }
+}
+
+// CLI usage
+if (require.main === module) {
+  const [memoryPath, from, to] = process.argv.slice(2);
+  
+  if (!memoryPath) {
+    console.error('Usage: ts-node memory-store.ts <memory.json> [from ISO date] [to ISO date]');
+    process.exit(1);
+  }
+  
+  const store = new MemoryStore(memoryPath);
+  const range = store.query({
+    from: from ? Date.parse(from) : undefined,
+    to: to ? Date.parse(to) : undefined
+  });
+  
+  console.log(`🧠 Raw observations: ${range.raw.length}`);
+  console.log(`⏱️ Hourly rollups: ${range.hourly.length}`);
+  console.log(`📅 Daily rollups: ${range.daily.length}`);
+}
\ No newline at end of file
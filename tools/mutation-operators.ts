@@ -0,0 +1,233 @@
+// 🧪 Mutation Operators
+// Registry of everything a mutation can do to an organism, and how to take it back
+
+import { hasOwn } from './mutation-policy';
+
+// How to take a mutation back: restore a snapshot, or ask the operator that made it
+export interface MutationInverse {
+  op: string;
+  target: string;
+  value?: any;
+  existed?: boolean;
+}
+
+export type OperatorUndo = Omit<MutationInverse, 'target'>;
+
+export interface MutationOperator {
+  type: string;
+  description: string;
+  dimension: number; // Axis of the drift vector
+  color: string; // Particle color when the mutation brings none of its own
+  apply(parent: any, key: string, value: any): OperatorUndo;
+  inverse?(parent: any, key: string, undo: any): void;
+}
+
+// Undo record for operators that simply overwrite - taken before the change
+export function snapshot(parent: any, key: string): OperatorUndo {
+  const existed = hasOwn(parent, key);
+  return { op: 'restore', value: existed ? structuredClone(parent[key]) : undefined, existed };
+}
+
+// Inverses stored before operators were pluggable named the undo, not the operator
+const LEGACY_INVERSES: Record<string, string> = {
+  remove: 'add_event',
+  scale: 'modify_state'
+};
+
+export class MutationOperatorRegistry {
+  private operators = new Map<string, MutationOperator>();
+  
+  register(operator: MutationOperator, options: { replace?: boolean } = {}): void {
+    if (operator.type === 'restore' || operator.type in LEGACY_INVERSES) {
+      throw new Error(`"${operator.type}" is reserved for stored inverses`);
+    }
+    if (this.operators.has(operator.type) && !options.replace) {
+      throw new Error(`Mutation operator ${operator.type} is already registered`);
+    }
+    if (!Number.isInteger(operator.dimension) || operator.dimension < 0) {
+      throw new Error(`Mutation operator ${operator.type}: dimension must be a non-negative integer`);
+    }
+    
+    this.operators.set(operator.type, operator);
+  }
+  
+  has(type: string): boolean {
+    return this.operators.has(type);
+  }
+  
+  get(type: string): MutationOperator {
+    const operator = this.operators.get(type);
+    if (!operator) {
+      throw new Error(`Unknown mutation operator ${type} (known: ${this.types().join(', ')})`);
+    }
+    return operator;
+  }
+  
+  types(): string[] {
+    return [...this.operators.keys()];
+  }
+  
+  list(): MutationOperator[] {
+    return [...this.operators.values()];
+  }
+  
+  invert(parent: any, key: string, inverse: MutationInverse): void {
+    if (inverse.op === 'restore') {
+      if (inverse.existed) {
+        parent[key] = structuredClone(inverse.value);
+      } else {
+        delete parent[key];
+      }
+      return;
+    }
+    
+    const operator = this.get(LEGACY_INVERSES[inverse.op] ?? inverse.op);
+    if (!operator.inverse) {
+      throw new Error(`Mutation operator ${operator.type} cannot be inverted`);
+    }
+    operator.inverse(parent, key, inverse.value);
+  }
+}
+
+export const mutationOperators = new MutationOperatorRegistry();
+
+// Built-in operators
+mutationOperators.register({
+  type: 'add_event',
+  description: 'Append a value to a list, creating the list if needed',
+  dimension: 0,
+  color: 'hsl(60, 70%, 50%)',
+  apply(parent, key, value) {
+    if (!Array.isArray(parent[key])) {
+      const undo = snapshot(parent, key);
+      parent[key] = [value];
+      return undo;
+    }
+    
+    parent[key].push(value);
+    return { op: 'add_event', value };
+  },
+  inverse(parent, key, value) {
+    const index = Array.isArray(parent[key]) ? parent[key].lastIndexOf(value) : -1;
+    if (index >= 0) parent[key].splice(index, 1);
+  }
+});
+
+mutationOperators.register({
+  type: 'modify_state',
+  description: 'Scale a numeric value by a factor, or set it outright',
+  dimension: 1,
+  color: 'hsl(120, 70%, 50%)',
+  apply(parent, key, value) {
+    if (typeof parent[key] !== 'number' || typeof value !== 'number' || value === 0) {
+      const undo = snapshot(parent, key);
+      parent[key] = value;
+      return undo;
+    }
+    
+    parent[key] *= value;
+    return { op: 'modify_state', value: 1 / value };
+  },
+  inverse(parent, key, factor) {
+    if (typeof parent[key] === 'number') parent[key] *= factor;
+  }
+});
+
+mutationOperators.register({
+  type: 'alter_behavior',
+  description: 'Replace a behavior, e.g. deprecate it',
+  dimension: 2,
+  color: 'hsl(0, 70%, 50%)',
+  apply(parent, key, value) {
+    const undo = snapshot(parent, key);
+    parent[key] = value;
+    return undo;
+  }
+});
+
+mutationOperators.register({
+  type: 'visual_change',
+  description: 'Set a visual attribute of the organism',
+  dimension: 3,
+  color: 'hsl(180, 70%, 50%)',
+  apply(parent, key, value) {
+    const undo = snapshot(parent, key);
+    parent[key] = value;
+    return undo;
+  }
+});
+
+mutationOperators.register({
+  type: 'remove_event',
+  description: 'Drop a value from a list, remembering where it stood',
+  dimension: 4,
+  color: 'hsl(330, 70%, 50%)',
+  apply(parent, key, value) {
+    const index = Array.isArray(parent[key]) ? parent[key].indexOf(value) : -1;
+    if (index >= 0) parent[key].splice(index, 1);
+    return { op: 'remove_event', value: { value, index } };
+  },
+  inverse(parent, key, { value, index }) {
+    if (index < 0) return;
+    if (!Array.isArray(parent[key])) parent[key] = [];
+    parent[key].splice(Math.min(index, parent[key].length), 0, value);
+  }
+});
+
+mutationOperators.register({
+  type: 'rename_event',
+  description: 'Rename a value in a list in place ({ from, to })',
+  dimension: 5,
+  color: 'hsl(40, 70%, 50%)',
+  apply(parent, key, { from, to }) {
+    const index = Array.isArray(parent[key]) ? parent[key].indexOf(from) : -1;
+    if (index >= 0) parent[key][index] = to;
+    return { op: 'rename_event', value: { from, to, renamed: index >= 0 } };
+  },
+  inverse(parent, key, { from, to, renamed }) {
+    const index = renamed && Array.isArray(parent[key]) ? parent[key].lastIndexOf(to) : -1;
+    if (index >= 0) parent[key][index] = from;
+  }
+});
+
+mutationOperators.register({
+  type: 'swap_glyph',
+  description: 'Give the organism a different glyph',
+  dimension: 6,
+  color: 'hsl(260, 70%, 50%)',
+  apply(parent, key, glyph) {
+    const undo = snapshot(parent, key);
+    parent[key] = String(glyph);
+    return undo;
+  }
+});
+
+mutationOperators.register({
+  type: 'adjust_frequency',
+  description: 'Shift a resonance frequency such as "432hz" by a number of hertz',
+  dimension: 7,
+  color: 'hsl(200, 70%, 50%)',
+  apply(parent, key, delta) {
+    const current = parseFloat(parent[key]);
+    if (Number.isNaN(current) || typeof delta !== 'number') {
+      const undo = snapshot(parent, key);
+      parent[key] = typeof delta === 'number' ? `${delta}hz` : delta;
+      return undo;
+    }
+    
+    parent[key] = typeof parent[key] === 'number' ? current + delta : `${current + delta}hz`;
+    return { op: 'adjust_frequency', value: -delta };
+  },
+  inverse(parent, key, delta) {
+    const current = parseFloat(parent[key]);
+    if (Number.isNaN(current)) return;
+    parent[key] = typeof parent[key] === 'number' ? current + delta : `${current + delta}hz`;
+  }
+});
+
+// CLI usage
+if (require.main === module) {
+  mutationOperators.list().forEach(operator => {
+    console.log(`🧪 ${operator.type.padEnd(18)} axis ${operator.dimension}  ${operator.color.padEnd(18)} ${operator.description}`);
+  });
+}
\ No newline at end of file
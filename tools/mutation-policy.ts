@@ -0,0 +1,145 @@
+// 🛡️ Mutation Policy
+// Which paths a mutation may touch, and what must stay true after it does
+
+import * as yaml from 'js-yaml';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface PolicyConfig {
+  allow?: string[]; // Omitted: every safe path not denied
+  deny: string[];
+  immutable: string[];
+  non_empty: string[];
+}
+
+export interface PolicyViolation {
+  rule: 'unsafe_path' | 'denied_path' | 'not_allowed' | 'immutable' | 'non_empty';
+  path: string;
+  detail: string;
+}
+
+export class MutationRejectedError extends Error {
+  constructor(readonly target: string, readonly violations: PolicyViolation[]) {
+    super(`Mutation of ${target} rejected: ${violations.map(v => v.detail).join('; ')}`);
+    this.name = 'MutationRejectedError';
+  }
+}
+
+// Segments that reach into the prototype chain instead of the organism
+const UNSAFE_SEGMENTS = ['__proto__', 'prototype', 'constructor'];
+
+export function isSafePath(target: string): boolean {
+  const segments = target.split('.');
+  return segments.every(segment => segment.length > 0 && !UNSAFE_SEGMENTS.includes(segment));
+}
+
+// Only the organism's own fields count - never what it inherits from Object.prototype
+export function hasOwn(node: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(node, key);
+}
+
+// A level a mutation path may walk through: no arrays, functions or class instances
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+export class MutationPolicy {
+  // maintain_core_identity, as the organism understands it
+  static readonly DEFAULT: PolicyConfig = {
+    deny: ['id', 'birth', 'parent', 'manifest.name', 'state.self', 'schema', 'manifest.schema'],
+    immutable: ['id', 'birth', 'manifest.name', 'state.self'],
+    non_empty: ['manifest.events']
+  };
+  
+  readonly config: PolicyConfig;
+  
+  constructor(config: Partial<PolicyConfig> = {}) {
+    this.config = { ...MutationPolicy.DEFAULT, ...config };
+  }
+  
+  // Policy from the mutation_policy section of 🧬.observable.yaml
+  static fromOrganism(root: string): MutationPolicy {
+    const configPath = path.join(root, '🧬.observable.yaml');
+    if (!fs.existsSync(configPath)) return new MutationPolicy();
+    
+    const config = yaml.load(fs.readFileSync(configPath, 'utf8')) as any;
+    return new MutationPolicy(config?.mutation_policy || {});
+  }
+  
+  checkTarget(target: string): PolicyViolation[] {
+    if (!isSafePath(target)) {
+      return [{ rule: 'unsafe_path', path: target, detail: `${target} reaches outside the organism` }];
+    }
+    
+    const denied = this.config.deny.find(pattern => this.covers(pattern, target) || this.covers(target, pattern));
+    if (denied) {
+      return [{ rule: 'denied_path', path: target, detail: `${target} is protected by deny rule ${denied}` }];
+    }
+    
+    if (this.config.allow && !this.config.allow.some(pattern => this.covers(pattern, target))) {
+      return [{ rule: 'not_allowed', path: target, detail: `${target} is not on the allowlist` }];
+    }
+    
+    return [];
+  }
+  
+  checkInvariants(before: any, after: any): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
+    
+    this.config.immutable.forEach(target => {
+      if (JSON.stringify(this.read(before, target)) !== JSON.stringify(this.read(after, target))) {
+        violations.push({ rule: 'immutable', path: target, detail: `${target} must never change` });
+      }
+    });
+    
+    // Only what was alive before has to stay alive - a bare organism has nothing to lose
+    this.config.non_empty.forEach(target => {
+      if (this.isFilled(this.read(before, target)) && !this.isFilled(this.read(after, target))) {
+        violations.push({ rule: 'non_empty', path: target, detail: `${target} must never be emptied` });
+      }
+    });
+    
+    return violations;
+  }
+  
+  // Does pattern cover target? A pattern covers its whole subtree; * matches one segment
+  private covers(pattern: string, target: string): boolean {
+    const patternSegments = pattern.split('.');
+    const targetSegments = target.split('.');
+    if (patternSegments.length > targetSegments.length) return false;
+    
+    return patternSegments.every((segment, i) => segment === '*' || segment === targetSegments[i]);
+  }
+  
+  private read(organism: any, target: string): unknown {
+    return target.split('.').reduce(
+      (node, key) => node !== null && typeof node === 'object' && hasOwn(node, key) ? node[key] : undefined,
+      organism
+    );
+  }
+  
+  private isFilled(value: unknown): boolean {
+    if (Array.isArray(value) || typeof value === 'string') return value.length > 0;
+    return value !== undefined && value !== null;
+  }
+}
+
+// CLI usage: would this target be allowed?
+if (require.main === module) {
+  const [target, root = process.cwd()] = process.argv.slice(2);
+  
+  if (!target) {
+    console.error('Usage: ts-node mutation-policy.ts <target.path> [organism root]');
+    process.exit(1);
+  }
+  
+  const violations = MutationPolicy.fromOrganism(root).checkTarget(target);
+  if (violations.length === 0) {
+    console.log(`✅ ${target} may mutate`);
+  } else {
+    violations.forEach(v => console.log(`🛡️ ${v.rule}: ${v.detail}`));
+    process.exit(1);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,472 @@
+// 🧬 Organism CLI
+// Wake, watch, poke and inspect the organism living in agent⟁/
+
+import * as yaml from 'js-yaml';
+import * as fs from 'fs';
+import * as path from 'path';
+import { schemas, OrganismMemory } from './schema';
+import { GlyphflowEngine } from './glyphflow';
+import { OrganismInbox } from './inbox';
+import { lineage } from './lineage';
+import { GeneticDriftEngine, MutationRecord, Population, PopulationStep } from './genetic-drift';
+import { OrganismJournal, OrganismSnapshot, JournalEntry, JournalChange } from './journal';
+import { writeFileAtomic } from './atomic';
+import { createEntropy } from './entropy';
+import { WatcherEngine } from './watchers';
+import { TerminalRenderer } from './terminal-renderer';
+
+const ORGANISM_ROOT = path.join(__dirname, '..');
+const AGENT_DIR = path.join(ORGANISM_ROOT, 'agent⟁');
+const MANIFEST_PATH = path.join(AGENT_DIR, 'manifest.yaml');
+const MEMORY_PATH = path.join(AGENT_DIR, 'memory.json');
+const JOURNAL_PATH = path.join(AGENT_DIR, 'journal.jsonl');
+const POPULATION_PATH = path.join(AGENT_DIR, 'population.json');
+
+export interface HistoryFilter {
+  type?: string;
+  since?: number;
+  until?: number;
+  generation?: number;
+  limit?: number;
+}
+
+export class OrganismCLI {
+  private inbox = new OrganismInbox(AGENT_DIR);
+  private journal = new OrganismJournal(JOURNAL_PATH);
+  
+  activate(): void {
+    // Loaded lazily - the agent validates and binds the organism on import
+    require('../agent⟁/entry');
+  }
+  
+  observe(interval: number = 500, draw: boolean = false): void {
+    if (draw) return this.observeDrawing(interval);
+    
+    const initial = this.loadMemory();
+    let lastTimestamp = this.lastObservation(initial);
+    let generation = initial.generation;
+    
+    console.log(`👁️ Observing ${path.relative(process.cwd(), MEMORY_PATH)} (Ctrl+C to stop)`);
+    
+    fs.watchFile(MEMORY_PATH, { interval }, () => {
+      let memory: OrganismMemory;
+      try {
+        memory = this.loadMemory();
+      } catch (e) {
+        console.error(`⚠️ ${(e as Error).message}`);
+        return;
+      }
+      
+      // Observations roll up once retention is full, so compare by time not index
+      const fresh = memory.observations.filter(o => o.timestamp > lastTimestamp);
+      fresh.forEach(o => {
+        const resonance = typeof o.resonance === 'number' ? o.resonance.toFixed(3) : '—';
+        const success = typeof o.success_rate === 'number' ? o.success_rate.toFixed(2) : '—';
+        console.log(`${new Date(o.timestamp).toISOString()}  🌊 ${resonance}  ✅ ${success}  🔗 ${o.interactions ?? '—'}`);
+      });
+      
+      if (memory.generation !== generation) {
+        console.log(`🧬 generation ${generation} → ${memory.generation}`);
+        generation = memory.generation;
+      }
+      
+      lastTimestamp = Math.max(lastTimestamp, this.lastObservation(memory));
+    });
+  }
+  
+  // Keep mind.svg, manifest and behavior in step as files change
+  watch(): WatcherEngine {
+    const engine = WatcherEngine.fromOrganism(ORGANISM_ROOT);
+    engine.start();
+    return engine;
+  }
+  
+  async trigger(event: string): Promise<void> {
+    const triggers = GlyphflowEngine.fromOrganism(ORGANISM_ROOT).triggers();
+    if (!triggers.includes(event)) {
+      throw new Error(`Unknown event "${event}" (known: ${triggers.join(', ')})`);
+    }
+    
+    await this.deliver(event, [], agent => agent.trigger(event));
+  }
+  
+  async revert(mutationId: string): Promise<void> {
+    const memory = this.loadMemory();
+    const live = [...(memory.probation || []), ...memory.successful_mutations];
+    
+    if (!live.some(entry => entry?.id === mutationId)) {
+      const failed = memory.failed_mutations.some(entry => entry?.id === mutationId);
+      throw new Error(failed ? `Mutation ${mutationId} was already rolled back` : `Unknown mutation ${mutationId}`);
+    }
+    
+    await this.deliver('revert', [mutationId], agent => agent.revert(mutationId));
+  }
+  
+  mutations(): { probation: MutationRecord[]; survived: MutationRecord[]; failed: MutationRecord[] } {
+    const memory = this.loadMemory();
+    const records = (list: any[] = []) => list.filter(entry => entry?.id && entry?.inverse) as MutationRecord[];
+    
+    return {
+      probation: records(memory.probation),
+      survived: records(memory.successful_mutations),
+      failed: records(memory.failed_mutations)
+    };
+  }
+  
+  status(): void {
+    const manifest = schemas.load('manifest', MANIFEST_PATH).data;
+    const memory = this.loadMemory();
+    const pid = this.inbox.runningPid();
+    
+    console.log(`🧬 ${manifest.name} v${manifest.version}`);
+    console.log(`   state: ${JSON.stringify(manifest.state)}`);
+    console.log(`   events: ${manifest.events.join(', ')}`);
+    console.log(`   generation: ${memory.generation}`);
+    console.log(`   energy: ${memory.evolution_trajectory.energy_level}`);
+    console.log(`   trajectory: ${memory.evolution_trajectory.current_state}`);
+    console.log(`   observations: ${memory.observations.length}`);
+    console.log(`   generations recorded: ${memory.mutation_history.length}`);
+    console.log(`   mutations: ${memory.probation?.length || 0} on probation, ${memory.successful_mutations.length} survived, ${memory.failed_mutations.length} rolled back`);
+    console.log(`   ${pid !== null ? `🟢 active (pid ${pid})` : '💤 dormant'}`);
+  }
+  
+  history(filter: HistoryFilter = {}): OrganismMemory['mutation_history'] {
+    const entries = this.loadMemory().mutation_history.filter(entry =>
+      (filter.type === undefined || entry.mutations.some(m => m.type === filter.type)) &&
+      (filter.since === undefined || entry.timestamp >= filter.since) &&
+      (filter.until === undefined || entry.timestamp <= filter.until) &&
+      (filter.generation === undefined || entry.generation === filter.generation)
+    );
+    
+    return filter.limit !== undefined ? entries.slice(-filter.limit) : entries;
+  }
+  
+  journalEntries(filter: { kind?: string; limit?: number } = {}): JournalEntry[] {
+    const entries = this.journal.entries().filter(entry => !filter.kind || entry.kind === filter.kind);
+    return filter.limit !== undefined ? entries.slice(-filter.limit) : entries;
+  }
+  
+  replay(point: string): { state: OrganismSnapshot; entry: JournalEntry } {
+    const { state, entry } = this.journal.replay(OrganismJournal.parsePoint(point));
+    if (!state || !entry) {
+      throw new Error(`The journal has nothing at or before ${point}`);
+    }
+    return { state, entry };
+  }
+  
+  diff(from: string, to: string = 'latest'): JournalChange[] {
+    return OrganismJournal.diff(this.replay(from).state, this.replay(to).state);
+  }
+  
+  // Roll the files on disk back (or forward) to a journaled point
+  restore(point: string): JournalEntry {
+    const pid = this.inbox.runningPid();
+    if (pid !== null) {
+      throw new Error(`Organism is active (pid ${pid}); let it sleep before restoring`);
+    }
+    
+    const { state, entry } = this.replay(point);
+    const manifest = schemas.parse('manifest', state.manifest, 'journal manifest').data;
+    const memory = schemas.parse('memory', state.memory, 'journal memory').data;
+    
+    writeFileAtomic(MANIFEST_PATH, yaml.dump(manifest));
+    writeFileAtomic(MEMORY_PATH, JSON.stringify(memory, null, 2));
+    this.journal.record('external', { manifest, memory }, { restored: entry.seq });
+    
+    return entry;
+  }
+  
+  // Advance the stored population, seeding it from the organism itself the first time
+  evolve(generations: number = 1): PopulationStep[] {
+    const options = GeneticDriftEngine.populationFrom(ORGANISM_ROOT);
+    const entropy = createEntropy();
+    const engine = new GeneticDriftEngine(entropy);
+    let population = fs.existsSync(POPULATION_PATH)
+      ? schemas.load('population', POPULATION_PATH).data as Population
+      : this.seedPopulation(entropy.clock.now());
+    
+    const steps: PopulationStep[] = [];
+    for (let i = 0; i < generations; i++) {
+      const step = engine.evolvePopulation(population, options);
+      population = step.population;
+      steps.push(step);
+    }
+    
+    writeFileAtomic(POPULATION_PATH, JSON.stringify(population, null, 2));
+    return steps;
+  }
+  
+  // Generation 0: the organism alone, in the environment it lives in now
+  private seedPopulation(now: number): Population {
+    const manifest = schemas.load('manifest', MANIFEST_PATH).data;
+    const memory = this.loadMemory();
+    const rates = memory.observations.map(o => o.success_rate).filter((r): r is number => typeof r === 'number');
+    const success = rates.length ? rates.reduce((sum, r) => sum + r, 0) / rates.length : 0.5;
+    
+    return {
+      generation: 0,
+      members: [{
+        id: memory.id,
+        organism: { ...memory, state: manifest.state, manifest },
+        patterns: manifest.events.map(event => ({
+          event,
+          frequency: 1,
+          success_rate: success,
+          resonance_impact: memory.resonance_patterns.self,
+          timestamp: now
+        })),
+        feedback: {
+          interactions: memory.interaction_graph.edges.length,
+          resonance_received: memory.resonance_patterns.ecosystem,
+          clones_spawned: 0,
+          mutations_survived: memory.successful_mutations.length,
+          energy_flow: memory.evolution_trajectory.energy_level
+        }
+      }]
+    };
+  }
+  
+  lineage(format: 'json' | 'dot' = 'json'): string {
+    const nodes = lineage.collect(ORGANISM_ROOT);
+    return format === 'dot' ? lineage.toDOT(nodes) : JSON.stringify(lineage.toTree(nodes), null, 2);
+  }
+  
+  // Redraw the organism in place whenever manifest or memory change
+  private observeDrawing(interval: number): void {
+    const renderer = new TerminalRenderer();
+    
+    const draw = () => {
+      try {
+        const manifest = schemas.load('manifest', MANIFEST_PATH).data;
+        const memory = this.loadMemory();
+        const last = memory.observations[memory.observations.length - 1];
+        const seen = last ? `👁️ ${new Date(last.timestamp).toISOString()}` : '👁️ no observations yet';
+        
+        process.stdout.write(`\x1b[2J\x1b[H${renderer.render(manifest, memory)}\n${seen} (Ctrl+C to stop)\n`);
+      } catch (e) {
+        console.error(`⚠️ ${(e as Error).message}`);
+      }
+    };
+    
+    draw();
+    fs.watchFile(MEMORY_PATH, { interval }, draw);
+    fs.watchFile(MANIFEST_PATH, { interval }, draw);
+  }
+  
+  // Hand a command to the running organism, or wake a dormant one just long enough to react
+  private async deliver(event: string, args: string[], offline: (agent: any) => Promise<void>): Promise<void> {
+    const label = [event, ...args].join(' ');
+    const pid = this.inbox.runningPid();
+    
+    if (pid !== null) {
+      const message = this.inbox.post(event, args);
+      const delivered = await this.inbox.waitForPickup(message);
+      
+      if (!delivered) {
+        throw new Error(`Organism (pid ${pid}) did not pick up ${label}; left in ${path.relative(process.cwd(), message)}`);
+      }
+      console.log(`📬 ${label} delivered to running organism (pid ${pid})`);
+      return;
+    }
+    
+    const { FractalAgent } = require('../agent⟁/behaviors');
+    await offline(new FractalAgent());
+    console.log(`⚡ ${label} applied to dormant organism`);
+  }
+  
+  private loadMemory(): OrganismMemory {
+    return schemas.load('memory', MEMORY_PATH).data;
+  }
+  
+  private lastObservation(memory: OrganismMemory): number {
+    return memory.observations.reduce((latest, o) => Math.max(latest, o.timestamp), -Infinity);
+  }
+}
+
+export const organism = new OrganismCLI();
+
+function parseFlags(args: string[]): Record<string, string> {
+  const flags: Record<string, string> = {};
+  
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) continue;
+    flags[args[i].slice(2)] = args[i + 1];
+    i++;
+  }
+  
+  return flags;
+}
+
+function parseDate(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`--${flag}: not a date: ${value}`);
+  }
+  return time;
+}
+
+// CLI usage
+if (require.main === module) {
+  const [command, ...args] = process.argv.slice(2);
+  
+  const usage = () => {
+    console.error('Usage: ts-node organism.ts <command>');
+    console.error('  activate                  wake the organism and keep it alive');
+    console.error('  observe [--draw]          live-tail observations, or redraw the organism as it changes');
+    console.error('  watch                     run the observability watchers from 🧬.observable.yaml');
+    console.error('  trigger <event>           fire an event at the running or dormant organism');
+    console.error('  status                    manifest, generation and energy');
+    console.error('  history [--type t] [--since date] [--until date] [--generation n] [--limit n]');
+    console.error('  lineage [--format json|dot]  family tree of the organism and its clones');
+    console.error('  mutations                 mutations on probation, survived and rolled back');
+    console.error('  revert <mutation-id>      roll back a mutation by hand');
+    console.error('  journal [--kind k] [--limit n]  what happened, entry by entry');
+    console.error('  replay <point>            the organism as it was (point: seq:N, gen:N, date, latest)');
+    console.error('  diff <point> [point]      what changed between two points');
+    console.error('  restore <point>           rewrite manifest and memory from the journal');
+    console.error('  evolve [generations]      breed agent⟁/population.json forward, seeded from the organism');
+    process.exit(1);
+  };
+  
+  const run = async () => {
+    switch (command) {
+      case 'activate':
+        organism.activate();
+        break;
+      
+      case 'observe':
+        organism.observe(500, args.includes('--draw'));
+        break;
+      
+      case 'watch': {
+        const engine = organism.watch();
+        const stop = () => {
+          engine.stop();
+          process.exit(0);
+        };
+        process.once('SIGINT', stop);
+        process.once('SIGTERM', stop);
+        break;
+      }
+      
+      case 'trigger':
+        if (!args[0]) usage();
+        await organism.trigger(args[0]);
+        break;
+      
+      case 'status':
+        organism.status();
+        break;
+      
+      case 'history': {
+        const flags = parseFlags(args);
+        const entries = organism.history({
+          type: flags.type,
+          since: parseDate(flags.since, 'since'),
+          until: parseDate(flags.until, 'until'),
+          generation: flags.generation !== undefined ? Number(flags.generation) : undefined,
+          limit: flags.limit !== undefined ? Number(flags.limit) : undefined
+        });
+        
+        if (entries.length === 0) {
+          console.log('📜 No matching mutations');
+        }
+        entries.forEach(entry => {
+          const mutations = entry.mutations
+            .map(m => `${m.type}→${m.target} (${m.strength.toFixed(2)})`)
+            .join(', ');
+          const seed = entry.seed !== undefined ? `  🎲 ${entry.seed}` : '';
+          console.log(`📜 gen ${entry.generation ?? '?'}  ${new Date(entry.timestamp).toISOString()}${seed}  ${mutations}`);
+        });
+        break;
+      }
+      
+      case 'mutations': {
+        const { probation, survived, failed } = organism.mutations();
+        const line = (icon: string) => (m: MutationRecord) =>
+          console.log(`${icon} ${m.id}  gen ${m.generation}  ${m.type}→${m.target}  fitness ${m.fitness_before.toFixed(3)}${m.fitness_after !== undefined ? ` → ${m.fitness_after.toFixed(3)}` : ''}${m.fitness_without !== undefined ? ` (${m.fitness_without.toFixed(3)} without)` : ''}`);
+        
+        probation.forEach(line('⏳'));
+        survived.forEach(line('✅'));
+        failed.forEach(line('↩️'));
+        if (probation.length + survived.length + failed.length === 0) {
+          console.log('🧬 No tracked mutations yet');
+        }
+        break;
+      }
+      
+      case 'revert':
+        if (!args[0]) usage();
+        await organism.revert(args[0]);
+        break;
+      
+      case 'journal': {
+        const flags = parseFlags(args);
+        organism.journalEntries({
+          kind: flags.kind,
+          limit: flags.limit !== undefined ? Number(flags.limit) : undefined
+        }).forEach(entry => {
+          const detail = entry.detail ? `  ${JSON.stringify(entry.detail)}` : '';
+          console.log(`📓 #${entry.seq}  ${new Date(entry.timestamp).toISOString()}  gen ${entry.generation}  ${entry.kind}${detail}  (${entry.patch.length} changes)`);
+        });
+        break;
+      }
+      
+      case 'replay': {
+        if (!args[0]) usage();
+        const { state, entry } = organism.replay(args[0]);
+        console.log(`📓 As of #${entry.seq} (${new Date(entry.timestamp).toISOString()}, gen ${entry.generation})`);
+        console.log(JSON.stringify(state, null, 2));
+        break;
+      }
+      
+      case 'diff': {
+        if (!args[0]) usage();
+        const changes = organism.diff(args[0], args[1]);
+        const show = (value: unknown) => {
+          const text = value === undefined ? '∅' : JSON.stringify(value);
+          return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+        };
+        
+        changes.forEach(change => console.log(`~ ${change.path}: ${show(change.before)} → ${show(change.after)}`));
+        console.log(`📓 ${changes.length} changes`);
+        break;
+      }
+      
+      case 'restore': {
+        if (!args[0]) usage();
+        const entry = organism.restore(args[0]);
+        console.log(`📓 Restored manifest and memory to #${entry.seq} (gen ${entry.generation})`);
+        break;
+      }
+      
+      case 'evolve': {
+        const generations = args[0] === undefined ? 1 : Number(args[0]);
+        if (!Number.isInteger(generations) || generations < 1) usage();
+        
+        organism.evolve(generations).forEach(step => {
+          const best = step.ranking[0];
+          console.log(`🧬 Generation ${step.population.generation}: ${step.population.members.length} members, fittest ${best.id} (${best.fitness.toFixed(3)}), elites ${step.elites.join(', ') || 'none'}`);
+        });
+        break;
+      }
+      
+      case 'lineage': {
+        const format = parseFlags(args).format || 'json';
+        if (format !== 'json' && format !== 'dot') usage();
+        console.log(organism.lineage(format as 'json' | 'dot'));
+        break;
+      }
+      
+      default:
+        usage();
+    }
+  };
+  
+  run().catch(e => {
+    console.error(`❌ ${e.message}`);
+    process.exit(1);
+  });
+}
\ No newline at end of file
@@ -0,0 +1,159 @@
+// 🎵 Resonance Model
+// Turns observable organism data into a 0..1 resonance score
+
+import * as fs from 'fs';
+
+export interface ResonanceMemory {
+  interaction_graph?: {
+    nodes: string[];
+    edges: Array<[string, string] | { from: string; to: string; weight?: number }>;
+  };
+  observations?: Array<{ success_rate?: number }>;
+  successful_mutations?: unknown[];
+  failed_mutations?: unknown[];
+}
+
+export interface FractalMeta {
+  depth?: number;
+  pulse?: number;
+  resonance?: number;
+  [key: string]: unknown;
+}
+
+export class ResonanceModel {
+  private readonly NEUTRAL = 0.5;
+  private readonly OBSERVATION_WINDOW = 20;
+  private readonly PULSE_HALF_LIFE = 60000; // Builds a minute apart still hum together
+  
+  // Signal weights - missing signals are dropped and the rest renormalized
+  private readonly WEIGHTS = {
+    interactions: 0.2,
+    success: 0.35,
+    survival: 0.25,
+    siblings: 0.2
+  };
+  
+  organismResonance(memory: ResonanceMemory, siblings: FractalMeta[] = []): number {
+    const signals: Array<[number, number | undefined]> = [
+      [this.WEIGHTS.interactions, this.interactionDensity(memory)],
+      [this.WEIGHTS.success, this.recentSuccess(memory)],
+      [this.WEIGHTS.survival, this.mutationSurvival(memory)],
+      [this.WEIGHTS.siblings, this.ecosystemResonance(siblings)]
+    ];
+    
+    return this.blend(signals);
+  }
+  
+  // How connected the organism is within its own interaction graph
+  interactionDensity(memory: ResonanceMemory): number | undefined {
+    const graph = memory.interaction_graph;
+    const nodes = graph?.nodes.length || 0;
+    if (!graph || nodes < 2) return undefined;
+    
+    const weight = graph.edges.reduce(
+      (sum, edge) => sum + (Array.isArray(edge) ? 1 : edge.weight ?? 1), 0
+    );
+    const possible = nodes * (nodes - 1) / 2;
+    
+    return this.clamp(weight / possible);
+  }
+  
+  recentSuccess(memory: ResonanceMemory): number | undefined {
+    const recent = (memory.observations || [])
+      .slice(-this.OBSERVATION_WINDOW)
+      .filter(o => typeof o.success_rate === 'number');
+    if (recent.length === 0) return undefined;
+    
+    return this.clamp(recent.reduce((sum, o) => sum + o.success_rate!, 0) / recent.length);
+  }
+  
+  mutationSurvival(memory: ResonanceMemory): number | undefined {
+    const survived = memory.successful_mutations?.length || 0;
+    const failed = memory.failed_mutations?.length || 0;
+    if (survived + failed === 0) return undefined;
+    
+    return survived / (survived + failed);
+  }
+  
+  // Mean pairwise similarity across a set of fractal artifacts
+  ecosystemResonance(metas: FractalMeta[]): number | undefined {
+    const present = metas.filter(Boolean);
+    if (present.length === 0) return undefined;
+    if (present.length === 1) return present[0].resonance;
+    
+    let total = 0;
+    let pairs = 0;
+    
+    present.forEach((meta, i) => {
+      present.forEach((other, j) => {
+        if (i < j) {
+          total += this.metaSimilarity(meta, other);
+          pairs++;
+        }
+      });
+    });
+    
+    return total / pairs;
+  }
+  
+  metaSimilarity(a: FractalMeta, b: FractalMeta): number {
+    const harmony = this.harmonicRatio((a.depth ?? 0) + 1, (b.depth ?? 0) + 1);
+    const pulse = a.pulse !== undefined && b.pulse !== undefined
+      ? Math.pow(0.5, Math.abs(a.pulse - b.pulse) / this.PULSE_HALF_LIFE)
+      : this.NEUTRAL;
+    
+    // Shared vocabulary of metadata keys
+    const keysA = new Set(Object.keys(a));
+    const keysB = new Set(Object.keys(b));
+    const shared = [...keysA].filter(k => keysB.has(k)).length;
+    const overlap = shared / new Set([...keysA, ...keysB]).size;
+    
+    return this.clamp(harmony * 0.4 + pulse * 0.3 + overlap * 0.3);
+  }
+  
+  // Resonance of a freshly built artifact among its siblings
+  fractalResonance(meta: FractalMeta, siblings: FractalMeta[], base: number = this.NEUTRAL): number {
+    const present = siblings.filter(Boolean);
+    if (present.length === 0) return base;
+    
+    const similarity = present.reduce((sum, s) => sum + this.metaSimilarity(meta, s), 0) / present.length;
+    return this.clamp((base + similarity) / 2);
+  }
+  
+  harmonicRatio(d1: number, d2: number): number {
+    // Musical harmonics for fractal depths
+    const ratio = d1 / d2;
+    
+    // Perfect harmonics
+    if (ratio === 1) return 1.0;                     // Unison
+    if (ratio === 1/2 || ratio === 2/1) return 1.0;  // Octave
+    if (ratio === 2/3 || ratio === 3/2) return 0.9;  // Fifth
+    if (ratio === 3/4 || ratio === 4/3) return 0.8;  // Fourth
+    
+    // Dissonance
+    return 0.5 - Math.abs(0.5 - (ratio % 1));
+  }
+  
+  loadMeta(file: string): FractalMeta | null {
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+  
+  private blend(signals: Array<[number, number | undefined]>): number {
+    const known = signals.filter(([, value]) => value !== undefined) as Array<[number, number]>;
+    const weight = known.reduce((sum, [w]) => sum + w, 0);
+    if (weight === 0) return this.NEUTRAL;
+    
+    return this.clamp(known.reduce((sum, [w, value]) => sum + w * value, 0) / weight);
+  }
+  
+  private clamp(value: number): number {
+    return Math.min(1, Math.max(0, value));
+  }
+}
+
+// Export singleton instance
+export const resonance = new ResonanceModel();
\ No newline at end of file
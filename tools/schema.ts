@@ -0,0 +1,677 @@
+// 📐 Organism Schemas
+// Validates every on-disk organism format and migrates older files forward
+
+import * as yaml from 'js-yaml';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface OrganismManifest {
+  schema: number;
+  name: string;
+  version: string;
+  state: {
+    self: boolean;
+    resonance?: number;
+    energy?: number;
+    mutations?: Array<{color: string; strength: number; [key: string]: unknown}>;
+    evolved?: boolean;
+    [key: string]: unknown;
+  };
+  events: string[];
+  [key: string]: unknown;
+}
+
+export interface Observation {
+  timestamp: number;
+  resonance?: number;
+  interactions?: number;
+  success_rate?: number;
+  [key: string]: unknown;
+}
+
+// Older observations folded into one bucket per hour or day
+export interface ObservationAggregate {
+  start: number;
+  period: 'hour' | 'day';
+  count: number;
+  resonance: { min: number; max: number; mean: number } | null;
+  success_rate: number | null;
+  interactions: number | null;
+}
+
+export interface OrganismMemory {
+  schema: number;
+  id: string;
+  parent?: string;
+  generation: number;
+  birth: number;
+  mutation_history: Array<{
+    timestamp: number;
+    seed?: number;
+    generation?: number;
+    mutations: Array<{ id?: string; type: string; target: string; strength: number }>;
+    [key: string]: unknown;
+  }>;
+  resonance_patterns: {
+    self: number;
+    ecosystem: number;
+    frequency: string;
+  };
+  interaction_graph: {
+    nodes: string[];
+    edges: any[];
+  };
+  evolution_trajectory: {
+    current_state: string;
+    potential_paths: string[];
+    energy_level: number;
+  };
+  observations: Observation[];
+  observation_rollups?: {
+    hourly: ObservationAggregate[];
+    daily: ObservationAggregate[];
+  };
+  successful_mutations: any[];
+  failed_mutations: any[];
+  probation?: any[];
+  [key: string]: unknown;
+}
+
+// A population being evolved generation by generation; organisms are whole memory-plus-state bodies
+export interface PopulationFile {
+  generation: number;
+  members: Array<{
+    id: string;
+    organism: Record<string, any>;
+    patterns: Array<{ event: string; frequency: number; success_rate: number; resonance_impact: number; timestamp: number }>;
+    feedback: {
+      interactions: number;
+      resonance_received: number;
+      clones_spawned: number;
+      mutations_survived: number;
+      energy_flow: number;
+    };
+    parents?: string[];
+  }>;
+  [key: string]: unknown;
+}
+
+export interface FractalMetaFile {
+  '🌀': string;
+  depth: number;
+  pulse: number;
+  resonance: number;
+  parent_link: string;
+  child_link: string;
+  [key: string]: unknown;
+}
+
+export interface FractalRoofFile {
+  '🏔️': 'roof';
+  type: 'fractal_boundary';
+  depth_reached: number;
+  child_fractals: string[];
+  resonance_map: Record<string, number>;
+  scan?: { max_depth?: number; ignore?: string[] }; // Which part of the tree the roof watches
+  [key: string]: unknown;
+}
+
+export interface BuildArtifactRecord {
+  path: string; // Absolute
+  kind: 'file' | 'dir';
+  created: boolean; // false when the build only overwrote what was already there
+  hash?: string; // sha256 of what the build wrote
+  source?: string; // What a copy was taken from
+  source_hash?: string; // sha256 of the source at build time, when a transform made the two differ
+}
+
+export interface BuildLevelRecord {
+  path: string; // Directory built at this depth
+  depth: number;
+  inputs: string; // sha256 over the artifacts the level pushes upward
+  outputs: string[]; // Files the level wrote
+}
+
+export interface FractalBuildManifest {
+  origin: string; // Directory the build started from
+  sandbox: string; // Highest directory the build may write into
+  built_at: number;
+  artifacts: BuildArtifactRecord[];
+  levels?: BuildLevelRecord[];
+  [key: string]: unknown;
+}
+
+export interface BuildTransformSpec {
+  match: string; // Artifact glob, relative to the level being built
+  use: string; // Registered transform name
+  min_depth?: number;
+  max_depth?: number;
+  options?: Record<string, unknown>;
+}
+
+export interface FractalBuildConfigFile {
+  artifacts?: string[]; // Globs pushed from every level into its parent's dist/
+  naming?: string; // Template for copy names: {depth}, {path}, {dir}, {name}, {stem}, {ext}
+  transforms?: BuildTransformSpec[];
+  metadata?: string[]; // Fields written into .fractal.meta
+  [key: string]: unknown;
+}
+
+// 🧬.observable.yaml: only the shape of the sections code reads is checked here, their settings by whoever reads them
+export interface ObservableConfigFile {
+  observability?: { watchers?: Array<Record<string, unknown>>; [key: string]: unknown };
+  pipeline?: { reverse?: Array<Record<string, unknown>>; [key: string]: unknown };
+  memory?: { retention?: Record<string, unknown>; [key: string]: unknown };
+  [key: string]: unknown;
+}
+
+export interface TemporalLinkPointer {
+  cycle_id: string;
+  present: number;
+}
+
+export interface TemporalLinkFile {
+  past: {
+    timestamp: number;
+    state: OrganismMemory;
+    svg: string;
+  };
+  present: number;
+  future: TemporalLinkPointer | null; // Back-filled by the next build
+  cycle_id: string;
+  previous?: string; // cycle_id of the link before; absent on the first
+  [key: string]: unknown;
+}
+
+export interface TemporalEnvelope {
+  id: string;
+  from: string;
+  to: string;
+  timestamp: number;
+  future_timestamp: string;
+  message: unknown;
+  signature: string;
+  original?: string;
+  loop_count?: number;
+  [key: string]: unknown;
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export class SchemaError extends Error {
+  constructor(readonly source: string, readonly issues: SchemaIssue[]) {
+    super(`${source} is invalid:\n` + issues.map(i => `  - ${i.path || '(root)'}: ${i.message}`).join('\n'));
+    this.name = 'SchemaError';
+  }
+}
+
+type Check = (value: unknown, at: string, issues: SchemaIssue[]) => void;
+
+// Tiny combinators - enough to describe our formats without a dependency
+const join = (at: string, key: string | number) =>
+  typeof key === 'number' ? `${at}[${key}]` : at ? `${at}.${key}` : key;
+
+const typed = (type: string): Check => (value, at, issues) => {
+  if (typeof value !== type) issues.push({ path: at, message: `expected ${type}, got ${describe(value)}` });
+};
+
+const t = {
+  string: () => typed('string'),
+  
+  boolean: () => typed('boolean'),
+  
+  number: (range: { min?: number; max?: number; positive?: boolean; integer?: boolean } = {}): Check =>
+    (value, at, issues) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path: at, message: `expected finite number, got ${describe(value)}` });
+      } else if (range.integer && !Number.isInteger(value)) {
+        issues.push({ path: at, message: `expected integer, got ${value}` });
+      } else if (range.positive && value <= 0) {
+        issues.push({ path: at, message: `expected a positive number, got ${value}` });
+      } else if (range.min !== undefined && value < range.min) {
+        issues.push({ path: at, message: `expected >= ${range.min}, got ${value}` });
+      } else if (range.max !== undefined && value > range.max) {
+        issues.push({ path: at, message: `expected <= ${range.max}, got ${value}` });
+      }
+    },
+  
+  literal: (expected: unknown): Check => (value, at, issues) => {
+    if (value !== expected) {
+      issues.push({ path: at, message: `expected ${JSON.stringify(expected)}, got ${describe(value)}` });
+    }
+  },
+  
+  any: (): Check => () => undefined,
+  
+  array: (item: Check, options: { nonEmpty?: boolean } = {}): Check => (value, at, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path: at, message: `expected array, got ${describe(value)}` });
+      return;
+    }
+    if (options.nonEmpty && value.length === 0) {
+      issues.push({ path: at, message: 'must not be empty' });
+    }
+    value.forEach((entry, i) => item(entry, join(at, i), issues));
+  },
+  
+  record: (entry: Check): Check => (value, at, issues) => {
+    if (!isObject(value)) {
+      issues.push({ path: at, message: `expected mapping, got ${describe(value)}` });
+      return;
+    }
+    Object.entries(value).forEach(([key, v]) => entry(v, join(at, key), issues));
+  },
+  
+  // Unknown keys pass through: organisms grow fields faster than schemas do
+  object: (shape: Record<string, Check>): Check => (value, at, issues) => {
+    if (!isObject(value)) {
+      issues.push({ path: at, message: `expected mapping, got ${describe(value)}` });
+      return;
+    }
+    Object.entries(shape).forEach(([key, check]) => {
+      const v = (value as Record<string, unknown>)[key];
+      if (v === undefined && !isOptional(check)) {
+        issues.push({ path: join(at, key), message: 'is required' });
+      } else {
+        check(v, join(at, key), issues);
+      }
+    });
+  }
+};
+
+const optionalChecks = new WeakSet<Check>();
+const optional = (check: Check): Check => {
+  const wrapped: Check = (value, at, issues) => {
+    if (value !== undefined) check(value, at, issues);
+  };
+  optionalChecks.add(wrapped);
+  return wrapped;
+};
+const isOptional = (check: Check) => optionalChecks.has(check);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return String(value);
+  return typeof value;
+}
+
+interface Migration {
+  from: number;
+  describe: string;
+  migrate(document: any): any;
+}
+
+interface FormatSpec {
+  version: number;
+  check: Check;
+  migrations: Migration[];
+}
+
+const manifestCheck = t.object({
+  schema: t.number({ integer: true }),
+  name: t.string(),
+  version: t.string(),
+  state: t.object({
+    self: t.boolean(),
+    resonance: optional(t.number({ min: 0, max: 1 })),
+    energy: optional(t.number({ min: 0 })),
+    mutations: optional(t.array(t.object({
+      color: t.string(),
+      strength: t.number({ min: 0, max: 1 })
+    }))),
+    evolved: optional(t.boolean())
+  }),
+  events: t.array(t.string(), { nonEmpty: true })
+});
+
+const aggregateCheck = t.object({
+  start: t.number(),
+  period: t.string(),
+  count: t.number({ integer: true, min: 1 })
+});
+
+const memoryCheck = t.object({
+  schema: t.number({ integer: true }),
+  id: t.string(),
+  parent: optional(t.string()),
+  generation: t.number({ integer: true, min: 0 }),
+  birth: t.number(),
+  mutation_history: t.array(t.object({
+    timestamp: t.number(),
+    seed: optional(t.number({ integer: true, min: 0 })),
+    generation: optional(t.number({ integer: true, min: 0 })),
+    mutations: t.array(t.object({
+      id: optional(t.string()),
+      type: t.string(),
+      target: t.string(),
+      strength: t.number()
+    }))
+  })),
+  resonance_patterns: t.object({
+    self: t.number({ min: 0, max: 1 }),
+    ecosystem: t.number({ min: 0, max: 1 }),
+    frequency: t.string()
+  }),
+  interaction_graph: t.object({
+    nodes: t.array(t.string()),
+    edges: t.array(t.any())
+  }),
+  evolution_trajectory: t.object({
+    current_state: t.string(),
+    potential_paths: t.array(t.string()),
+    // Divides animation durations in the SVG - zero or missing means Infinity
+    energy_level: t.number({ positive: true })
+  }),
+  observations: t.array(t.object({
+    timestamp: t.number()
+  })),
+  observation_rollups: optional(t.object({
+    hourly: t.array(aggregateCheck),
+    daily: t.array(aggregateCheck)
+  })),
+  successful_mutations: t.array(t.any()),
+  failed_mutations: t.array(t.any()),
+  probation: optional(t.array(t.object({
+    id: t.string(),
+    target: t.string(),
+    applied_at: t.number(),
+    fitness_before: t.number(),
+    inverse: t.object({ op: t.string(), target: t.string() })
+  })))
+});
+
+const FORMATS: Record<SchemaKind, FormatSpec> = {
+  manifest: {
+    version: 1,
+    check: manifestCheck,
+    migrations: [{
+      from: 0,
+      describe: 'introduce schema field, normalize state and mutation particles',
+      migrate: (doc: any) => ({
+        ...doc,
+        schema: 1,
+        state: {
+          self: true,
+          ...doc.state,
+          ...(Array.isArray(doc.state?.mutations) ? {
+            mutations: doc.state.mutations.map((m: any) => ({
+              ...m,
+              color: m.color ?? 'hsl(0, 0%, 50%)',
+              strength: m.strength ?? 0.5
+            }))
+          } : {})
+        },
+        events: Array.isArray(doc.events) ? doc.events : []
+      })
+    }]
+  },
+  memory: {
+    version: 1,
+    check: memoryCheck,
+    migrations: [{
+      from: 0,
+      describe: 'introduce schema field, fill trajectory and collection defaults',
+      migrate: (doc: any) => ({
+        mutation_history: [],
+        observations: [],
+        successful_mutations: [],
+        failed_mutations: [],
+        interaction_graph: { nodes: ['self'], edges: [] },
+        resonance_patterns: { self: 1.0, ecosystem: 0.0, frequency: '432hz' },
+        ...doc,
+        schema: 1,
+        evolution_trajectory: {
+          current_state: 'embryonic',
+          potential_paths: [],
+          ...doc.evolution_trajectory,
+          energy_level: doc.evolution_trajectory?.energy_level || 1.0
+        }
+      })
+    }]
+  },
+  fractalMeta: {
+    version: 0,
+    check: t.object({
+      '🌀': t.string(),
+      depth: t.number({ integer: true, min: 0 }),
+      pulse: t.number(),
+      resonance: t.number({ min: 0, max: 1 }),
+      parent_link: t.string(),
+      child_link: t.string()
+    }),
+    migrations: []
+  },
+  fractalRoof: {
+    version: 0,
+    check: t.object({
+      '🏔️': t.literal('roof'),
+      type: t.literal('fractal_boundary'),
+      depth_reached: t.number({ integer: true, min: 0 }),
+      child_fractals: t.array(t.string()),
+      resonance_map: t.record(t.number({ min: 0, max: 1 })),
+      scan: optional(t.object({
+        max_depth: optional(t.number({ integer: true, min: 0 })),
+        ignore: optional(t.array(t.string()))
+      }))
+    }),
+    migrations: []
+  },
+  fractalBuild: {
+    version: 0,
+    check: t.object({
+      origin: t.string(),
+      sandbox: t.string(),
+      built_at: t.number(),
+      artifacts: t.array(t.object({
+        path: t.string(),
+        kind: t.string(),
+        created: t.boolean(),
+        hash: optional(t.string()),
+        source: optional(t.string()),
+        source_hash: optional(t.string())
+      })),
+      levels: optional(t.array(t.object({
+        path: t.string(),
+        depth: t.number({ integer: true, min: 0 }),
+        inputs: t.string(),
+        outputs: t.array(t.string())
+      })))
+    }),
+    migrations: []
+  },
+  buildConfig: {
+    version: 0,
+    check: t.object({
+      artifacts: optional(t.array(t.string(), { nonEmpty: true })),
+      naming: optional(t.string()),
+      transforms: optional(t.array(t.object({
+        match: t.string(),
+        use: t.string(),
+        min_depth: optional(t.number({ integer: true, min: 0 })),
+        max_depth: optional(t.number({ integer: true, min: 0 })),
+        options: optional(t.record(t.any()))
+      }))),
+      metadata: optional(t.array(t.string()))
+    }),
+    migrations: []
+  },
+  observable: {
+    version: 0,
+    check: t.object({
+      observability: optional(t.object({ watchers: optional(t.array(t.record(t.any()))) })),
+      pipeline: optional(t.object({ reverse: optional(t.array(t.record(t.any()))) })),
+      memory: optional(t.object({ retention: optional(t.record(t.any())) }))
+    }),
+    migrations: []
+  },
+  population: {
+    version: 0,
+    check: t.object({
+      generation: t.number({ integer: true, min: 0 }),
+      members: t.array(t.object({
+        id: t.string(),
+        organism: t.record(t.any()),
+        patterns: t.array(t.object({
+          event: t.string(),
+          frequency: t.number(),
+          success_rate: t.number(),
+          resonance_impact: t.number(),
+          timestamp: t.number()
+        })),
+        feedback: t.object({
+          interactions: t.number(),
+          resonance_received: t.number(),
+          clones_spawned: t.number(),
+          mutations_survived: t.number(),
+          energy_flow: t.number()
+        }),
+        parents: optional(t.array(t.string()))
+      }))
+    }),
+    migrations: []
+  },
+  temporalLink: {
+    version: 0,
+    check: t.object({
+      past: t.object({
+        timestamp: t.number(),
+        state: t.object({ id: t.string(), generation: t.number() }),
+        svg: t.string()
+      }),
+      present: t.number(),
+      future: t.any(),
+      cycle_id: t.string(),
+      previous: optional(t.string())
+    }),
+    migrations: []
+  },
+  temporalEnvelope: {
+    version: 0,
+    check: t.object({
+      id: t.string(),
+      from: t.string(),
+      to: t.string(),
+      timestamp: t.number(),
+      future_timestamp: t.string(),
+      message: t.any(),
+      signature: t.string(),
+      original: optional(t.string()),
+      loop_count: optional(t.number({ integer: true, min: 0 }))
+    }),
+    migrations: []
+  }
+};
+
+export interface SchemaTypes {
+  manifest: OrganismManifest;
+  memory: OrganismMemory;
+  fractalMeta: FractalMetaFile;
+  fractalRoof: FractalRoofFile;
+  fractalBuild: FractalBuildManifest;
+  buildConfig: FractalBuildConfigFile;
+  observable: ObservableConfigFile;
+  population: PopulationFile;
+  temporalLink: TemporalLinkFile;
+  temporalEnvelope: TemporalEnvelope;
+}
+
+export type SchemaKind = keyof SchemaTypes;
+
+export interface Parsed<T> {
+  data: T;
+  migratedFrom: number | null;
+}
+
+export class OrganismSchemas {
+  // Formats that carry a `schema` field; `version` in manifests is the organism's own
+  currentVersion(kind: SchemaKind): number {
+    return FORMATS[kind].version;
+  }
+  
+  parse<K extends SchemaKind>(kind: K, raw: unknown, source: string = kind): Parsed<SchemaTypes[K]> {
+    const spec: FormatSpec = FORMATS[kind];
+    
+    if (!isObject(raw)) {
+      throw new SchemaError(source, [{ path: '', message: `expected mapping, got ${describe(raw)}` }]);
+    }
+    
+    const found = typeof raw.schema === 'number' ? raw.schema : 0;
+    if (found > spec.version) {
+      throw new SchemaError(source, [{
+        path: 'schema',
+        message: `written by a newer organism (schema ${found}, this code understands ${spec.version})`
+      }]);
+    }
+    
+    let document: any = raw;
+    spec.migrations
+      .filter(m => m.from >= found && m.from < spec.version)
+      .sort((a, b) => a.from - b.from)
+      .forEach(m => { document = m.migrate(document); });
+    
+    const issues: SchemaIssue[] = [];
+    spec.check(document, '', issues);
+    if (issues.length) throw new SchemaError(source, issues);
+    
+    return { data: document, migratedFrom: found < spec.version ? found : null };
+  }
+  
+  load<K extends SchemaKind>(kind: K, file: string): Parsed<SchemaTypes[K]> {
+    const text = fs.readFileSync(file, 'utf8');
+    const source = path.basename(file);
+    let raw: unknown;
+    
+    try {
+      raw = /\.ya?ml$/.test(file) ? yaml.load(text) : JSON.parse(text);
+    } catch (e) {
+      throw new SchemaError(source, [{ path: '', message: `unreadable (${(e as Error).message})` }]);
+    }
+    
+    return this.parse(kind, raw, source);
+  }
+  
+  // Bring a file up to the current schema in place
+  migrateFile(kind: SchemaKind, file: string): number | null {
+    const { data, migratedFrom } = this.load(kind, file);
+    if (migratedFrom === null) return null;
+    
+    const text = /\.ya?ml$/.test(file) ? yaml.dump(data) : JSON.stringify(data, null, 2);
+    fs.writeFileSync(file, text);
+    
+    return migratedFrom;
+  }
+}
+
+// Export singleton instance
+export const schemas = new OrganismSchemas();
+
+// CLI usage: validate (and optionally migrate) organism files
+if (require.main === module) {
+  const [kind, file, flag] = process.argv.slice(2);
+  
+  if (!kind || !file || !(kind in FORMATS)) {
+    console.error(`Usage: ts-node schema.ts <${Object.keys(FORMATS).join('|')}> <file> [--migrate]`);
+    process.exit(1);
+  }
+  
+  try {
+    if (flag === '--migrate') {
+      const from = schemas.migrateFile(kind as SchemaKind, file);
+      console.log(from === null ? `✅ ${file} is current` : `📐 ${file} migrated from schema ${from}`);
+    } else {
+      const { migratedFrom } = schemas.load(kind as SchemaKind, file);
+      console.log(`✅ ${file} is valid` + (migratedFrom !== null ? ` (needs migration from schema ${migratedFrom})` : ''));
+    }
+  } catch (e) {
+    console.error(`❌ ${(e as Error).message}`);
+    process.exit(1);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,407 @@
+// 🎨 SVG Renderer
+// The one place the organism is drawn - themes decide how, the output config decides where
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from './atomic';
+import { schemas, OrganismManifest, OrganismMemory } from './schema';
+
+// Glyphs drawn around the organism for its recent events
+export const EVENT_SYMBOLS: Record<string, string> = {
+  'eatSelf': '🍽️',
+  'replicate': '🧬',
+  'mutate': '🔄',
+  'glyphSync': '🔗',
+  'observe': '👁️'
+};
+
+export interface SVGTheme {
+  name: string;
+  description: string;
+  palette: {
+    hue: number; // Degrees reached at resonance 1; resonance 0 is always red
+    saturation: [number, number]; // % at resonance 0 and 1
+    lightness: [number, number];
+  };
+  glyphs: { base: string; evolved: string; resonant: string; evolvedResonant: string };
+  events: Record<string, string>;
+  unknownEvent: string;
+  animate: boolean;
+}
+
+export interface BackupRetention {
+  keep?: number; // Newest backups kept
+  within?: number; // Backups younger than this many ms kept
+}
+
+export interface SVGOutputOptions {
+  theme: string;
+  mode: 'atomic-write' | 'direct';
+  backup: boolean;
+  retention: BackupRetention;
+}
+
+export class SVGThemeRegistry {
+  private themes = new Map<string, SVGTheme>();
+  
+  register(theme: SVGTheme, options: { replace?: boolean } = {}): void {
+    if (this.themes.has(theme.name) && !options.replace) {
+      throw new Error(`SVG theme ${theme.name} is already registered`);
+    }
+    if (theme.palette.hue <= 0 || theme.palette.hue > 360) {
+      throw new Error(`SVG theme ${theme.name}: palette.hue must be in (0, 360]`);
+    }
+    
+    this.themes.set(theme.name, theme);
+  }
+  
+  has(name: string): boolean {
+    return this.themes.has(name);
+  }
+  
+  get(name: string): SVGTheme {
+    const theme = this.themes.get(name);
+    if (!theme) {
+      throw new Error(`Unknown SVG theme ${name} (known: ${this.names().join(', ')})`);
+    }
+    return theme;
+  }
+  
+  names(): string[] {
+    return [...this.themes.keys()];
+  }
+  
+  list(): SVGTheme[] {
+    return [...this.themes.values()];
+  }
+}
+
+export const svgThemes = new SVGThemeRegistry();
+
+const BASE_RADIUS = 45;
+const VISIBLE_EVENTS = 5;
+const DEFAULT_RETENTION: BackupRetention = { keep: 10 };
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1, s: 1000, m: 60000, h: 3600000, d: 86400000, w: 604800000
+};
+
+// "7 days", "12h", "30 min" → milliseconds
+export function parseDuration(value: string | number): number {
+  if (typeof value === 'number') return value;
+  
+  const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)[a-z]*$/i.exec(value.trim());
+  if (!match) {
+    throw new Error(`Not a duration: ${value} (e.g. "7 days", "12h")`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2].toLowerCase()];
+}
+
+export class SVGRenderer {
+  static readonly DEFAULT_THEME = 'organic';
+  
+  readonly theme: SVGTheme;
+  
+  constructor(theme: SVGTheme | string = SVGRenderer.DEFAULT_THEME) {
+    this.theme = typeof theme === 'string' ? svgThemes.get(theme) : theme;
+  }
+  
+  render(manifest: OrganismManifest, memory: OrganismMemory): string {
+    const resonance = this.resonance(manifest, memory);
+    const radius = this.radius(manifest, memory);
+    const color = this.color(resonance);
+    const opacity = manifest.state.self ? 1 : 0.5;
+    
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">
+  <!-- Core organism -->
+  <circle cx="50" cy="50" r="${radius}"
+          stroke="${color}"
+          stroke-width="${this.strokeWidth(memory)}"
+          fill="none"
+          opacity="${opacity}">${this.animation(`
+    <!-- Pulsing animation based on energy -->
+    <animate attributeName="r"
+             values="${radius};${radius + 2};${radius}"
+             dur="${2 / memory.evolution_trajectory.energy_level}s"
+             repeatCount="indefinite"/>`)}
+  </circle>
+  
+  <!-- Central glyph -->
+  <text x="50%" y="50%"
+        text-anchor="middle"
+        dominant-baseline="middle"
+        font-size="12"
+        fill="${color}">
+    ${this.glyph(manifest, resonance)}
+  </text>
+  
+  <!-- Mutation particles -->
+  ${this.renderMutations(manifest)}
+  
+  <!-- Event indicators -->
+  ${this.renderEvents(manifest)}
+  
+  <!-- Resonance field -->
+  ${this.renderResonanceField(resonance)}
+  
+  <!-- Metadata -->
+  <metadata>
+    <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+      <rdf:Description>
+        <dc:title xmlns:dc="http://purl.org/dc/elements/1.1/">${manifest.name}</dc:title>
+        <dc:description xmlns:dc="http://purl.org/dc/elements/1.1/">Generation ${memory.generation}</dc:description>
+        <fractal:resonance xmlns:fractal="https://s0fractal.com/ns">${resonance}</fractal:resonance>
+        <fractal:state xmlns:fractal="https://s0fractal.com/ns">${memory.evolution_trajectory.current_state}</fractal:state>
+        <fractal:theme xmlns:fractal="https://s0fractal.com/ns">${this.theme.name}</fractal:theme>
+      </rdf:Description>
+    </rdf:RDF>
+  </metadata>
+</svg>`;
+  }
+  
+  // What the organism last measured (state.resonance, set by observe), else what its memory remembers
+  resonance(manifest: OrganismManifest, memory: OrganismMemory): number {
+    if (typeof manifest.state.resonance === 'number') return manifest.state.resonance;
+    return (memory.resonance_patterns.self + memory.resonance_patterns.ecosystem) / 2;
+  }
+  
+  radius(manifest: OrganismManifest, memory: OrganismMemory): number {
+    const mutationBonus = (manifest.state.mutations?.length || 0) * 2;
+    const generationBonus = memory.generation * 0.5;
+    
+    return BASE_RADIUS + mutationBonus + generationBonus;
+  }
+  
+  strokeWidth(memory: OrganismMemory): number {
+    return 2 + memory.evolution_trajectory.energy_level * 2;
+  }
+  
+  color(resonance: number): string {
+    // High resonance = green/blue, low = red/orange
+    const { hue, saturation, lightness } = this.theme.palette;
+    const mix = ([low, high]: [number, number]) => low + resonance * (high - low);
+    
+    return `hsl(${resonance * hue}, ${mix(saturation)}%, ${mix(lightness)}%)`;
+  }
+  
+  // Inverse of color(), as far as the hue allows
+  resonanceFromColor(color?: string): number | undefined {
+    const match = /hsl\(\s*([\d.]+)/.exec(color || '');
+    if (!match) return undefined;
+    
+    return Math.min(1, Math.max(0, Number(match[1]) / this.theme.palette.hue));
+  }
+  
+  glyph(manifest: OrganismManifest, resonance: number): string {
+    const { glyphs } = this.theme;
+    const evolved = manifest.state.evolved;
+    const highResonance = resonance > 0.8;
+    
+    if (evolved && highResonance) return glyphs.evolvedResonant;
+    if (evolved) return glyphs.evolved;
+    if (highResonance) return glyphs.resonant;
+    
+    return glyphs.base;
+  }
+  
+  isEvolvedGlyph(text: string): boolean {
+    return text === this.theme.glyphs.evolved || text === this.theme.glyphs.evolvedResonant;
+  }
+  
+  // Write a rendered SVG the way the output config asks, backing up what it replaces
+  static write(file: string, svg: string, output: Partial<SVGOutputOptions> = {}, now: number = Date.now()): void {
+    if (output.backup) {
+      SVGRenderer.backup(file, svg, output.retention || DEFAULT_RETENTION, now);
+    }
+    
+    if (output.mode === 'direct') {
+      fs.writeFileSync(file, svg);
+    } else {
+      writeFileAtomic(file, svg);
+    }
+  }
+  
+  // Copy file aside before it is replaced by next; nothing to keep when they are the same
+  static backup(file: string, next: string, retention: BackupRetention = DEFAULT_RETENTION, now: number = Date.now()): string | null {
+    if (!fs.existsSync(file) || fs.readFileSync(file, 'utf8') === next) return null;
+    
+    const backup = file.replace(/\.svg$/, `.backup.${now}.svg`);
+    fs.copyFileSync(file, backup);
+    SVGRenderer.pruneBackups(file, retention, now);
+    
+    return backup;
+  }
+  
+  // A backup survives if it is among the newest `keep` or younger than `within`
+  static pruneBackups(file: string, retention: BackupRetention, now: number = Date.now()): string[] {
+    const dir = path.dirname(file);
+    const pattern = new RegExp(`^${path.basename(file, '.svg').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\.backup\\.(\\d+)\\.svg$`);
+    
+    const backups = fs.readdirSync(dir)
+      .map(name => ({ name, taken: Number(pattern.exec(name)?.[1]) }))
+      .filter(backup => !Number.isNaN(backup.taken))
+      .sort((a, b) => b.taken - a.taken);
+    
+    const removed = backups.filter((backup, i) => {
+      const recent = retention.keep !== undefined && i < retention.keep;
+      const fresh = retention.within !== undefined && now - backup.taken <= retention.within;
+      return !recent && !fresh;
+    });
+    
+    removed.forEach(backup => fs.rmSync(path.join(dir, backup.name), { force: true }));
+    return removed.map(backup => path.join(dir, backup.name));
+  }
+  
+  // Output settings from the pipeline.reverse stage that targets mind.svg in 🧬.observable.yaml
+  static outputFrom(root: string): SVGOutputOptions {
+    const defaults: SVGOutputOptions = {
+      theme: SVGRenderer.DEFAULT_THEME,
+      mode: 'atomic-write',
+      backup: false,
+      retention: DEFAULT_RETENTION
+    };
+    
+    const configPath = path.join(root, '🧬.observable.yaml');
+    if (!fs.existsSync(configPath)) return defaults;
+    
+    const config = schemas.load('observable', configPath).data;
+    const stage = (config.pipeline?.reverse || []).find(s => s.target === 'mind.svg');
+    if (!stage) return defaults;
+    
+    const where = '🧬.observable.yaml: pipeline.reverse mind.svg';
+    const mode = stage.mode ?? defaults.mode;
+    if (mode !== 'atomic-write' && mode !== 'direct') {
+      throw new Error(`${where} mode must be "atomic-write" or "direct"`);
+    }
+    const theme = stage.theme ?? defaults.theme;
+    if (typeof theme !== 'string') {
+      throw new Error(`${where} theme must be a theme name, got ${JSON.stringify(theme)}`);
+    }
+    
+    return {
+      theme,
+      mode,
+      backup: Boolean(stage.backup),
+      retention: stage.backup_retention === undefined ? defaults.retention : SVGRenderer.retentionFrom(stage.backup_retention, where)
+    };
+  }
+  
+  // keep: how many of the newest backups, a whole number; within: a duration or ms, never negative
+  private static retentionFrom(retention: unknown, where: string): BackupRetention {
+    if (!retention || typeof retention !== 'object' || Array.isArray(retention)) {
+      throw new Error(`${where} backup_retention must be a mapping with keep and/or within`);
+    }
+    
+    const { keep, within } = retention as Record<string, unknown>;
+    const result: BackupRetention = {};
+    if (keep !== undefined) {
+      if (typeof keep !== 'number' || !Number.isInteger(keep) || keep < 0) {
+        throw new Error(`${where} backup_retention.keep must be an integer >= 0, got ${JSON.stringify(keep)}`);
+      }
+      result.keep = keep;
+    }
+    if (within !== undefined) {
+      const duration = typeof within === 'string' || typeof within === 'number' ? parseDuration(within) : NaN;
+      if (!(duration >= 0 && Number.isFinite(duration))) {
+        throw new Error(`${where} backup_retention.within must be a duration that is not negative, got ${JSON.stringify(within)}`);
+      }
+      result.within = duration;
+    }
+    return result;
+  }
+  
+  private animation(markup: string): string {
+    return this.theme.animate ? markup : '';
+  }
+  
+  private renderMutations(manifest: OrganismManifest): string {
+    const mutations = manifest.state.mutations || [];
+    
+    return mutations.map((mutation, i) => {
+      const angle = (i / mutations.length) * Math.PI * 2;
+      const distance = 30 + mutation.strength * 10;
+      const x = 50 + Math.cos(angle) * distance;
+      const y = 50 + Math.sin(angle) * distance;
+      const size = 3 + mutation.strength * 2;
+      const opacity = 0.5 + mutation.strength * 0.5;
+      
+      return `  <circle cx="${x}" cy="${y}" r="${size}"
+          fill="${mutation.color}"
+          opacity="${opacity}">${this.animation(`
+    <animate attributeName="opacity"
+             values="${opacity};${0.8};${opacity}"
+             dur="${3 - mutation.strength}s"
+             repeatCount="indefinite"/>`)}
+  </circle>`;
+    }).join('\n');
+  }
+  
+  private renderEvents(manifest: OrganismManifest): string {
+    const recentEvents = manifest.events.slice(-VISIBLE_EVENTS);
+    
+    return recentEvents.map((event, i) => {
+      const angle = (i / VISIBLE_EVENTS) * Math.PI * 2 - Math.PI / 2;
+      const x = 50 + Math.cos(angle) * 40;
+      const y = 50 + Math.sin(angle) * 40;
+      const symbol = this.theme.events[event] || this.theme.unknownEvent;
+      
+      return `  <text x="${x}" y="${y}"
+        text-anchor="middle"
+        dominant-baseline="middle"
+        font-size="8"
+        opacity="0.6">${symbol}</text>`;
+    }).join('\n');
+  }
+  
+  private renderResonanceField(resonance: number): string {
+    if (resonance < 0.3) return '';
+    
+    const radius = BASE_RADIUS + resonance * 20;
+    return `  <!-- Resonance field visualization -->
+  <circle cx="50" cy="50" r="${radius}"
+          fill="none"
+          stroke="${this.color(resonance)}"
+          stroke-width="0.5"
+          opacity="${resonance * 0.3}">${this.animation(`
+    <animate attributeName="r"
+             values="${radius};${radius + 5};${radius}"
+             dur="4s"
+             repeatCount="indefinite"/>`)}
+  </circle>`;
+  }
+}
+
+// Built-in themes
+svgThemes.register({
+  name: 'organic',
+  description: 'Red through cyan, brighter as it resonates, always breathing',
+  palette: { hue: 180, saturation: [70, 100], lightness: [40, 60] },
+  glyphs: { base: '🧬', evolved: '🧬🌱', resonant: '🧬💫', evolvedResonant: '🧬✨' },
+  events: EVENT_SYMBOLS,
+  unknownEvent: '❓',
+  animate: true
+});
+
+svgThemes.register({
+  ...svgThemes.get('organic'),
+  name: 'still',
+  description: 'Organic colors without animation - for print and diffs',
+  animate: false
+});
+
+svgThemes.register({
+  name: 'classic',
+  description: 'The first drawing: red through green at flat saturation',
+  palette: { hue: 120, saturation: [70, 70], lightness: [50, 50] },
+  glyphs: { base: '🧬', evolved: '🧬✨', resonant: '🧬', evolvedResonant: '🧬✨' },
+  events: EVENT_SYMBOLS,
+  unknownEvent: '❓',
+  animate: false
+});
+
+// CLI usage
+if (require.main === module) {
+  svgThemes.list().forEach(theme => {
+    console.log(`🎨 ${theme.name.padEnd(10)} hue 0-${theme.palette.hue}  ${theme.animate ? 'animated' : 'still   '}  ${theme.description}`);
+  });
+}
\ No newline at end of file
@@ -0,0 +1,241 @@
+// 📥 SVG to AST Parser
+// First stage of the forward pipeline: turns mind.svg into a plain JSON tree
+
+import * as fs from 'fs';
+
+export interface SVGAstElement {
+  type: 'element';
+  name: string;
+  attributes: Record<string, string>;
+  children: SVGAstNode[];
+}
+
+export interface SVGAstText {
+  type: 'text';
+  value: string;
+}
+
+export interface SVGAstComment {
+  type: 'comment';
+  value: string;
+}
+
+export type SVGAstNode = SVGAstElement | SVGAstText | SVGAstComment;
+
+export class SVGParseError extends Error {
+  constructor(readonly line: number, readonly column: number, detail: string) {
+    super(`${line}:${column}: ${detail}`);
+    this.name = 'SVGParseError';
+  }
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+export class SVGtoASTParser {
+  private pos = 0;
+  
+  constructor(private readonly source: string) {}
+  
+  parse(): SVGAstElement {
+    this.skipProlog();
+    
+    const root = this.parseElement();
+    
+    this.skipMisc();
+    if (this.pos < this.source.length) {
+      this.fail('unexpected content after root element');
+    }
+    
+    return root;
+  }
+  
+  private skipProlog(): void {
+    this.skipMisc();
+    while (this.source.startsWith('<?', this.pos) || this.source.startsWith('<!DOCTYPE', this.pos)) {
+      const end = this.source.indexOf('>', this.pos);
+      if (end < 0) this.fail('unterminated declaration');
+      this.pos = end + 1;
+      this.skipMisc();
+    }
+  }
+  
+  // Whitespace and comments outside the root element carry no structure
+  private skipMisc(): void {
+    for (;;) {
+      while (/\s/.test(this.source[this.pos] || '')) this.pos++;
+      if (!this.source.startsWith('<!--', this.pos)) return;
+      this.parseComment();
+    }
+  }
+  
+  private parseElement(): SVGAstElement {
+    this.expect('<');
+    const name = this.readName();
+    const attributes: Record<string, string> = {};
+    
+    for (;;) {
+      this.skipWhitespace();
+      
+      if (this.source.startsWith('/>', this.pos)) {
+        this.pos += 2;
+        return { type: 'element', name, attributes, children: [] };
+      }
+      if (this.source[this.pos] === '>') {
+        this.pos++;
+        break;
+      }
+      
+      const attribute = this.readName();
+      this.skipWhitespace();
+      this.expect('=');
+      this.skipWhitespace();
+      attributes[attribute] = this.readQuoted();
+    }
+    
+    const children: SVGAstNode[] = [];
+    
+    for (;;) {
+      if (this.pos >= this.source.length) {
+        this.fail(`unclosed element <${name}>`);
+      }
+      
+      if (this.source.startsWith('</', this.pos)) {
+        this.pos += 2;
+        const closing = this.readName();
+        if (closing !== name) {
+          this.fail(`expected </${name}> but found </${closing}>`);
+        }
+        this.skipWhitespace();
+        this.expect('>');
+        return { type: 'element', name, attributes, children };
+      }
+      
+      if (this.source.startsWith('<!--', this.pos)) {
+        children.push(this.parseComment());
+      } else if (this.source.startsWith('<![CDATA[', this.pos)) {
+        children.push(this.parseCData());
+      } else if (this.source[this.pos] === '<') {
+        children.push(this.parseElement());
+      } else {
+        const text = this.parseText();
+        if (text.value.trim()) children.push(text);
+      }
+    }
+  }
+  
+  private parseComment(): SVGAstComment {
+    const end = this.source.indexOf('-->', this.pos);
+    if (end < 0) this.fail('unterminated comment');
+    
+    const value = this.source.slice(this.pos + 4, end).trim();
+    this.pos = end + 3;
+    
+    return { type: 'comment', value };
+  }
+  
+  private parseCData(): SVGAstText {
+    const end = this.source.indexOf(']]>', this.pos);
+    if (end < 0) this.fail('unterminated CDATA section');
+    
+    const value = this.source.slice(this.pos + 9, end);
+    this.pos = end + 3;
+    
+    return { type: 'text', value };
+  }
+  
+  private parseText(): SVGAstText {
+    const end = this.source.indexOf('<', this.pos);
+    const raw = this.source.slice(this.pos, end < 0 ? undefined : end);
+    this.pos = end < 0 ? this.source.length : end;
+    
+    return { type: 'text', value: this.decode(raw).trim() };
+  }
+  
+  private readName(): string {
+    const match = /^[A-Za-z_:][\w:.-]*/.exec(this.source.slice(this.pos, this.pos + 256));
+    if (!match) this.fail('expected a name');
+    
+    this.pos += match![0].length;
+    return match![0];
+  }
+  
+  private readQuoted(): string {
+    const quote = this.source[this.pos];
+    if (quote !== '"' && quote !== "'") this.fail('expected a quoted attribute value');
+    
+    const end = this.source.indexOf(quote, this.pos + 1);
+    if (end < 0) this.fail('unterminated attribute value');
+    
+    const value = this.source.slice(this.pos + 1, end);
+    this.pos = end + 1;
+    
+    // Attribute line breaks are formatting, not meaning
+    return this.decode(value).replace(/\s+/g, ' ').trim();
+  }
+  
+  private decode(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return String.fromCodePoint(point);
+      }
+      return ENTITIES[code] ?? entity;
+    });
+  }
+  
+  private skipWhitespace(): void {
+    while (/\s/.test(this.source[this.pos] || '')) this.pos++;
+  }
+  
+  private expect(char: string): void {
+    if (this.source[this.pos] !== char) {
+      this.fail(`expected '${char}'`);
+    }
+    this.pos++;
+  }
+  
+  private fail(detail: string): never {
+    const before = this.source.slice(0, this.pos).split('\n');
+    throw new SVGParseError(before.length, before[before.length - 1].length + 1, detail);
+  }
+  
+  static parseFile(svgPath: string): SVGAstElement {
+    return new SVGtoASTParser(fs.readFileSync(svgPath, 'utf8')).parse();
+  }
+  
+  // Depth-first search for elements by tag name
+  static findAll(node: SVGAstNode, name: string): SVGAstElement[] {
+    if (node.type !== 'element') return [];
+    
+    const own = node.name === name ? [node] : [];
+    return own.concat(...node.children.map(child => SVGtoASTParser.findAll(child, name)));
+  }
+  
+  static textOf(node: SVGAstElement): string {
+    return node.children
+      .map(child => child.type === 'text' ? child.value : child.type === 'element' ? SVGtoASTParser.textOf(child) : '')
+      .join('')
+      .trim();
+  }
+}
+
+// CLI usage
+if (require.main === module) {
+  const [svgPath, outputPath] = process.argv.slice(2);
+  
+  if (!svgPath || !outputPath) {
+    console.error('Usage: ts-node svg-to-ast.ts <mind.svg> <mind.ast.json>');
+    process.exit(1);
+  }
+  
+  const ast = SVGtoASTParser.parseFile(svgPath);
+  fs.writeFileSync(outputPath, JSON.stringify(ast, null, 2));
+  
+  console.log(`📥 SVG parsed: ${outputPath}`);
+}
\ No newline at end of file
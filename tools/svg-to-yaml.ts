@@ -0,0 +1,187 @@
+// 🔤 SVG to YAML Extractor
+// Forward pipeline: hand-edited visual form flows back into structure
+
+import * as yaml from 'js-yaml';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SVGtoASTParser, SVGAstElement } from './svg-to-ast';
+import { ManifestData, MemoryData } from './yaml-to-svg';
+import { SVGRenderer, svgThemes } from './svg-renderer';
+import { schemas } from './schema';
+import { writeFileAtomic } from './atomic';
+
+export interface ExtractedStructure {
+  state: {
+    self: boolean;
+    resonance?: number;
+    mutations: Array<{color: string; strength: number}>;
+    evolved: boolean;
+  };
+  // null when the SVG carries no event glyphs at all; a null entry is a glyph with no event name
+  events: Array<string | null> | null;
+}
+
+export class SVGtoYAMLExtractor {
+  private readonly BASE_RADIUS = 45;
+  private readonly VISIBLE_EVENTS = 5;
+  
+  private readonly renderer: SVGRenderer;
+  
+  constructor(
+    private readonly ast: SVGAstElement,
+    private readonly memory?: Partial<MemoryData>
+  ) {
+    // Read the drawing back with the theme that drew it
+    const theme = SVGtoASTParser.findAll(ast, 'fractal:theme')[0];
+    const name = theme ? SVGtoASTParser.textOf(theme).trim() : '';
+    this.renderer = new SVGRenderer(svgThemes.has(name) ? name : SVGRenderer.DEFAULT_THEME);
+  }
+  
+  extract(): ExtractedStructure {
+    const circles = SVGtoASTParser.findAll(this.ast, 'circle');
+    const texts = SVGtoASTParser.findAll(this.ast, 'text');
+    
+    // Outlines are the core and resonance field; filled circles are mutation particles
+    const core = circles.find(c => c.attributes.fill === 'none');
+    const particles = circles.filter(c => c.attributes.fill && c.attributes.fill !== 'none');
+    const glyph = texts.find(t => t.attributes.x === '50%');
+    const eventGlyphs = texts.filter(t => t !== glyph);
+    
+    return {
+      state: {
+        self: Number(core?.attributes.opacity ?? 1) >= 1,
+        resonance: this.renderer.resonanceFromColor(core?.attributes.stroke),
+        mutations: this.extractMutations(core, particles),
+        evolved: glyph ? this.renderer.isEvolvedGlyph(SVGtoASTParser.textOf(glyph).trim()) : false
+      },
+      events: eventGlyphs.length ? this.extractEvents(eventGlyphs) : null
+    };
+  }
+  
+  // Merge extracted structure into a manifest without touching identity fields
+  applyTo(manifest: ManifestData): ManifestData {
+    const extracted = this.extract();
+    const existing = manifest.state.mutations || [];
+    
+    const mutations = extracted.state.mutations.map((mutation, i) => ({ ...existing[i], ...mutation }));
+    
+    const state: ManifestData['state'] = {
+      ...manifest.state,
+      self: extracted.state.self,
+      evolved: extracted.state.evolved
+    };
+    if (extracted.state.resonance !== undefined) {
+      state.resonance = extracted.state.resonance;
+    }
+    if (mutations.length) {
+      state.mutations = mutations;
+    } else {
+      delete state.mutations;
+    }
+    
+    return {
+      ...manifest,
+      state,
+      events: this.mergeEvents(manifest.events, extracted.events)
+    };
+  }
+  
+  private extractMutations(
+    core: SVGAstElement | undefined,
+    particles: SVGAstElement[]
+  ): Array<{color: string; strength: number}> {
+    const mutations = particles.map(particle => ({
+      color: particle.attributes.fill,
+      strength: this.particleStrength(particle)
+    }));
+    
+    // A radius grown by hand implies mutations that have no particle yet
+    const radius = Number(core?.attributes.r ?? this.BASE_RADIUS);
+    const implied = Math.round((radius - this.BASE_RADIUS - this.generation() * 0.5) / 2);
+    
+    while (mutations.length < implied) {
+      mutations.push({ color: core?.attributes.stroke || 'black', strength: 0.5 });
+    }
+    
+    return mutations;
+  }
+  
+  private particleStrength(particle: SVGAstElement): number {
+    // Generator draws size = 3 + strength * 2 and opacity = 0.5 + strength * 0.5
+    const size = Number(particle.attributes.r ?? 3);
+    const opacity = Number(particle.attributes.opacity ?? 1);
+    const strength = size > 3 ? (size - 3) / 2 : (opacity - 0.5) * 2;
+    
+    return Math.round(Math.min(1, Math.max(0, strength)) * 100) / 100;
+  }
+  
+  private generation(): number {
+    // Prefer what the SVG says about itself over the memory file
+    const description = SVGtoASTParser.findAll(this.ast, 'dc:description')[0];
+    const match = description && /Generation (\d+)/.exec(SVGtoASTParser.textOf(description));
+    
+    return match ? Number(match[1]) : this.memory?.generation || 0;
+  }
+  
+  private extractEvents(glyphs: SVGAstElement[]): Array<string | null> {
+    const bySymbol = new Map(Object.entries(this.renderer.theme.events).map(([event, symbol]) => [symbol, event]));
+    
+    // Unknown glyphs (❓) cannot be mapped back to an event name on their own
+    return glyphs.map(glyph => bySymbol.get(SVGtoASTParser.textOf(glyph)) ?? null);
+  }
+  
+  private mergeEvents(events: string[], visible: Array<string | null> | null): string[] {
+    if (!visible) return events;
+    
+    // Only the last few events are drawn; older history stays as it was
+    const drawn = Math.max(0, events.length - this.VISIBLE_EVENTS);
+    const hidden = events.slice(0, drawn);
+    
+    // Events the theme has no glyph for were drawn as ❓ - they keep the names they had, in order
+    const unnamed = events.slice(drawn).filter(event => !(event in this.renderer.theme.events));
+    const named = visible
+      .map(event => event ?? unnamed.shift())
+      .filter((event): event is string => event !== undefined);
+    const merged = [...hidden, ...named];
+    
+    return merged.length ? merged : events;
+  }
+  
+  // Main ingestion function
+  static async ingest(
+    svgPath: string,
+    manifestPath: string,
+    memoryPath?: string
+  ): Promise<void> {
+    const ast = SVGtoASTParser.parseFile(svgPath);
+    const astPath = path.join(path.dirname(svgPath), 'mind.ast.json');
+    writeFileAtomic(astPath, JSON.stringify(ast, null, 2));
+    
+    const memory = memoryPath && fs.existsSync(memoryPath)
+      ? schemas.load('memory', memoryPath).data
+      : undefined;
+    const manifest = schemas.load('manifest', manifestPath).data;
+    
+    const extractor = new SVGtoYAMLExtractor(ast, memory);
+    const updated = extractor.applyTo(manifest);
+    
+    writeFileAtomic(manifestPath, yaml.dump(updated));
+    
+    console.log(`📥 SVG ingested: ${astPath}`);
+    console.log(`🔤 Manifest updated: ${manifestPath}`);
+    console.log(`🧬 Mutations: ${updated.state.mutations?.length || 0}, events: ${updated.events.length}`);
+  }
+}
+
+// CLI usage
+if (require.main === module) {
+  const [svgPath, manifestPath, memoryPath] = process.argv.slice(2);
+  
+  if (!svgPath || !manifestPath) {
+    console.error('Usage: ts-node svg-to-yaml.ts <mind.svg> <manifest.yaml> [memory.json]');
+    process.exit(1);
+  }
+  
+  SVGtoYAMLExtractor.ingest(svgPath, manifestPath, memoryPath)
+    .catch(console.error);
+}
\ No newline at end of file
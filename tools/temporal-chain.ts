@@ -0,0 +1,231 @@
+// 🔗 Temporal Chain
+// Every build's temporal link kept, each pointing back to the one before and forward once the next build exists
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { schemas, TemporalLinkFile } from './schema';
+import { OrganismJournal, JournalChange } from './journal';
+
+export const TEMPORAL_CHAIN_DIR = '.temporal.chain';
+export const TEMPORAL_LINK_FILE = '.temporal.link'; // The latest link, where builds always left it
+
+export class TemporalChain {
+  constructor(readonly dir: string = process.cwd()) {}
+  
+  private get chainDir(): string {
+    return path.join(this.dir, TEMPORAL_CHAIN_DIR);
+  }
+  
+  private linkPath(cycleId: string): string {
+    return path.join(this.chainDir, `${cycleId}.link`);
+  }
+  
+  // Oldest first, in the order the `previous` links give - `present` is pinned along with the clock.
+  // Links the chain never reaches come first, oldest of them first
+  links(): TemporalLinkFile[] {
+    if (!fs.existsSync(this.chainDir)) return [];
+    
+    const all = fs.readdirSync(this.chainDir)
+      .filter(file => file.endsWith('.link'))
+      .map(file => schemas.load('temporalLink', path.join(this.chainDir, file)).data)
+      .sort((a, b) => a.present - b.present);
+    const byId = new Map(all.map(link => [link.cycle_id, link]));
+    const named = new Set(all.map(link => link.previous));
+    
+    // The head is the link nothing follows; when several are, the latest of them
+    const chain: TemporalLinkFile[] = [];
+    for (let link = all.filter(link => !named.has(link.cycle_id)).pop(); link; link = link.previous ? byId.get(link.previous) : undefined) {
+      if (chain.includes(link)) throw new Error(`Temporal chain loops at ${link.cycle_id}`);
+      chain.unshift(link);
+    }
+    
+    return [...all.filter(link => !chain.includes(link)), ...chain];
+  }
+  
+  head(): TemporalLinkFile | null {
+    return this.links().pop() ?? null;
+  }
+  
+  get(cycleId: string): TemporalLinkFile {
+    const file = this.linkPath(cycleId);
+    if (!fs.existsSync(file)) throw new Error(`No temporal link ${cycleId} in ${this.chainDir}`);
+    return schemas.load('temporalLink', file).data;
+  }
+  
+  // "head", "genesis", "head~N", or a cycle id or unique prefix of one
+  resolve(ref: string): TemporalLinkFile {
+    const links = this.links();
+    if (!links.length) throw new Error(`No temporal links in ${this.chainDir}`);
+    
+    if (ref === 'head') return links[links.length - 1];
+    if (ref === 'genesis') return links[0];
+    
+    const back = ref.match(/^head~(\d+)$/);
+    if (back) {
+      const link = this.backward('head')[Number(back[1])];
+      if (!link) throw new Error(`The chain is only ${this.backward('head').length} links long`);
+      return link;
+    }
+    
+    const exact = links.find(link => link.cycle_id === ref);
+    if (exact) return exact;
+    
+    const matches = links.filter(link => link.cycle_id.startsWith(ref));
+    if (matches.length !== 1) {
+      throw new Error(matches.length ? `${ref} is ambiguous (${matches.map(l => l.cycle_id).join(', ')})` : `No temporal link ${ref}`);
+    }
+    return matches[0];
+  }
+  
+  // Add a link after the current head and fill in the head's future. A chain with no links yet
+  // adopts the .temporal.link an older build left behind, so its snapshot is not lost.
+  // A cycle id already in the chain (a pinned seed and clock give the same one every build) gets a -2, -3... suffix
+  append(link: TemporalLinkFile): { link: TemporalLinkFile; backfilled: TemporalLinkFile | null } {
+    fs.mkdirSync(this.chainDir, { recursive: true });
+    const previous = this.head() ?? this.adoptLegacy();
+    
+    let cycleId = link.cycle_id;
+    for (let n = 2; fs.existsSync(this.linkPath(cycleId)); n++) cycleId = `${link.cycle_id}-${n}`;
+    
+    const appended: TemporalLinkFile = {
+      ...link,
+      cycle_id: cycleId,
+      future: null,
+      ...(previous ? { previous: previous.cycle_id } : {})
+    };
+    this.save(appended);
+    
+    if (!previous) return { link: appended, backfilled: null };
+    
+    const backfilled: TemporalLinkFile = { ...previous, future: { cycle_id: appended.cycle_id, present: appended.present } };
+    this.save(backfilled);
+    return { link: appended, backfilled };
+  }
+  
+  // From a link back to the first, following `previous`
+  backward(from: string = 'head'): TemporalLinkFile[] {
+    const walked: TemporalLinkFile[] = [];
+    
+    for (let link: TemporalLinkFile | null = this.resolve(from); link; link = link.previous ? this.get(link.previous) : null) {
+      if (walked.some(seen => seen.cycle_id === link!.cycle_id)) throw new Error(`Temporal chain loops at ${link.cycle_id}`);
+      walked.push(link);
+    }
+    return walked;
+  }
+  
+  // From a link to the latest, following the back-filled `future`
+  forward(from: string = 'genesis'): TemporalLinkFile[] {
+    const walked: TemporalLinkFile[] = [];
+    
+    for (let link: TemporalLinkFile | null = this.resolve(from); link; link = link.future ? this.get(link.future.cycle_id) : null) {
+      if (walked.some(seen => seen.cycle_id === link!.cycle_id)) throw new Error(`Temporal chain loops at ${link.cycle_id}`);
+      walked.push(link);
+    }
+    return walked;
+  }
+  
+  // The link whose snapshot was taken closest to a moment; on a tie, the earlier one
+  nearest(timestamp: number): TemporalLinkFile | null {
+    return this.links().reduce<TemporalLinkFile | null>((best, link) => {
+      if (!best) return link;
+      return Math.abs(link.past.timestamp - timestamp) < Math.abs(best.past.timestamp - timestamp) ? link : best;
+    }, null);
+  }
+  
+  // How the organism's memory changed between two snapshots
+  diff(from: string, to: string = 'head'): JournalChange[] {
+    return OrganismJournal.diff(this.resolve(from).past.state, this.resolve(to).past.state);
+  }
+  
+  private save(link: TemporalLinkFile): void {
+    fs.writeFileSync(this.linkPath(link.cycle_id), JSON.stringify(link, null, 2));
+  }
+  
+  private adoptLegacy(): TemporalLinkFile | null {
+    const file = path.join(this.dir, TEMPORAL_LINK_FILE);
+    if (!fs.existsSync(file)) return null;
+    
+    try {
+      const legacy = schemas.load('temporalLink', file).data;
+      const adopted: TemporalLinkFile = { ...legacy, future: null };
+      delete adopted.previous;
+      this.save(adopted);
+      return adopted;
+    } catch (e) {
+      console.warn(`⚠️ Left ${TEMPORAL_LINK_FILE} out of the chain: ${(e as Error).message.split('\n')[0]}`);
+      return null;
+    }
+  }
+}
+
+export const temporalChain = new TemporalChain();
+
+// CLI usage
+if (require.main === module) {
+  const [command, ...args] = process.argv.slice(2);
+  const chain = new TemporalChain(args.find(arg => arg.startsWith('--dir='))?.slice(6) ?? process.cwd());
+  const positional = args.filter(arg => !arg.startsWith('--'));
+  
+  const usage = () => {
+    console.error('Usage: ts-node temporal-chain.ts <command> [--dir=<build origin>]');
+    console.error('  back [from]        links from newest (or <from>) back to the first');
+    console.error('  forward [from]     links from the first (or <from>) to the newest');
+    console.error('  nearest <when>     the snapshot closest to a date or epoch ms');
+    console.error('  show <link>        one link, without its svg');
+    console.error('  diff <from> [to]   memory changes between two snapshots');
+    console.error('  links are "head", "genesis", "head~N" or a cycle id prefix');
+    process.exit(1);
+  };
+  
+  const line = (link: TemporalLinkFile) =>
+    `🔗 ${link.cycle_id.padEnd(28)} ${new Date(link.past.timestamp).toISOString()}  gen ${link.past.state.generation}` +
+    `${link.previous ? '' : '  (genesis)'}${link.future ? '' : '  (head)'}`;
+  
+  try {
+    switch (command) {
+      case 'back':
+        chain.backward(positional[0]).forEach(link => console.log(line(link)));
+        break;
+      
+      case 'forward':
+        chain.forward(positional[0]).forEach(link => console.log(line(link)));
+        break;
+      
+      case 'nearest': {
+        if (!positional[0]) usage();
+        const when = /^\d+$/.test(positional[0]) ? Number(positional[0]) : Date.parse(positional[0]);
+        if (Number.isNaN(when)) throw new Error(`Not a moment: ${positional[0]} (use a date or epoch ms)`);
+        
+        const link = chain.nearest(when);
+        console.log(link ? line(link) : '🔗 No temporal links yet');
+        break;
+      }
+      
+      case 'show': {
+        if (!positional[0]) usage();
+        const link = chain.resolve(positional[0]);
+        console.log(JSON.stringify({ ...link, past: { ...link.past, svg: `(${link.past.svg.length} chars)` } }, null, 2));
+        break;
+      }
+      
+      case 'diff': {
+        if (!positional[0]) usage();
+        const changes = chain.diff(positional[0], positional[1]);
+        const show = (value: unknown) => {
+          const text = value === undefined ? '∅' : JSON.stringify(value);
+          return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+        };
+        
+        changes.forEach(change => console.log(`~ ${change.path}: ${show(change.before)} → ${show(change.after)}`));
+        console.log(`🔗 ${changes.length} changes`);
+        break;
+      }
+      
+      default:
+        usage();
+    }
+  } catch (e) {
+    console.error(`❌ ${(e as Error).message}`);
+    process.exit(1);
+  }
+}
\ No newline at end of file
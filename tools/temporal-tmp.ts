@@ -4,10 +4,17 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { createHash } from 'crypto';
+import { createEntropy, Entropy, Clock } from './entropy';
+import { schemas, TemporalEnvelope } from './schema';
 
 export class TemporalTmpProtocol {
   private readonly BASE_TMP = '/tmp';
   private readonly NAMESPACE = 's0fractal';
+  private clock: Clock;
+  
+  constructor(entropy: Entropy = createEntropy()) {
+    this.clock = entropy.clock;
+  }
   
   // Create temporal depth structure
   async createTemporalDepth(depth: number): Promise<string> {
@@ -23,7 +30,7 @@ export class TemporalTmpProtocol {
       // Add temporal marker
       const marker = {
         depth: i + 1,
-        created: Date.now(),
+        created: this.clock.now(),
         timeline: this.calculateTimeline(i + 1),
         resonance_frequency: 432 * Math.pow(2, i/12) // Musical scaling
       };
@@ -45,7 +52,7 @@ export class TemporalTmpProtocol {
   
   private calculateTimeline(depth: number): string {
     // Each level = different time offset
-    const now = new Date();
+    const now = new Date(this.clock.now());
     const futureYears = depth * depth; // Exponential time travel
     
     now.setFullYear(now.getFullYear() + futureYears);
@@ -57,11 +64,11 @@ export class TemporalTmpProtocol {
     const futurePath = await this.createTemporalDepth(depth);
     const messageId = this.generateMessageId(message);
     
-    const envelope = {
+    const envelope: TemporalEnvelope = {
       id: messageId,
       from: 'present',
       to: `future+${depth}`,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       future_timestamp: this.calculateTimeline(depth),
       message: message,
       signature: this.signMessage(message)
@@ -76,8 +83,8 @@ export class TemporalTmpProtocol {
   }
   
   // Read messages from past
-  async readFromPast(depth: number): Promise<any[]> {
-    const messages: any[] = [];
+  async readFromPast(depth: number): Promise<TemporalEnvelope[]> {
+    const messages: TemporalEnvelope[] = [];
     let currentPath = this.BASE_TMP;
     
     // Navigate to past level
@@ -91,10 +98,7 @@ export class TemporalTmpProtocol {
         files.forEach(file => {
           if (file.endsWith('.temporal')) {
             try {
-              const content = JSON.parse(
-                fs.readFileSync(path.join(namespacePath, file), 'utf8')
-              );
-              messages.push(content);
+              messages.push(schemas.load('temporalEnvelope', path.join(namespacePath, file)).data);
             } catch (e) {
               // Skip corrupted messages
             }
@@ -121,7 +125,7 @@ export class TemporalTmpProtocol {
         // Create response
         const response = {
           original: msg.id,
-          response: `Acknowledged at ${new Date().toISOString()}`,
+          response: `Acknowledged at ${new Date(this.clock.now()).toISOString()}`,
           loop_count: (msg.loop_count || 0) + 1
         };
         
@@ -134,7 +138,7 @@ export class TemporalTmpProtocol {
   private generateMessageId(message: any): string {
     const hash = createHash('sha256');
     hash.update(JSON.stringify(message));
-    hash.update(Date.now().toString());
+    hash.update(this.clock.now().toString());
     return hash.digest('hex').substring(0, 16);
   }
   
@@ -0,0 +1,185 @@
+// 🖥️ Terminal Renderer
+// Draws the organism with ANSI colors for when all you have is an SSH session
+
+import * as path from 'path';
+import { schemas, OrganismManifest, OrganismMemory } from './schema';
+import { SVGRenderer, SVGTheme } from './svg-renderer';
+
+export type ColorMode = 'truecolor' | '16' | 'none';
+
+export interface TerminalOptions {
+  colors?: ColorMode;
+  size?: number; // Grid cells per side; each cell is two columns wide
+  theme?: SVGTheme | string;
+}
+
+type RGB = [number, number, number];
+
+interface Cell {
+  text: string; // Exactly two columns: one wide glyph, or a narrow one and a space
+  color?: RGB;
+}
+
+const RESET = '\x1b[0m';
+
+// The 16 ANSI colors, in escape code order: 30-37, then 90-97
+const ANSI_16: RGB[] = [
+  [0, 0, 0], [205, 0, 0], [0, 205, 0], [205, 205, 0], [0, 0, 238], [205, 0, 205], [0, 205, 205], [229, 229, 229],
+  [127, 127, 127], [255, 0, 0], [0, 255, 0], [255, 255, 0], [92, 92, 255], [255, 0, 255], [0, 255, 255], [255, 255, 255]
+];
+
+const NAMED: Record<string, RGB> = {
+  black: [0, 0, 0], white: [255, 255, 255], gray: [128, 128, 128], grey: [128, 128, 128],
+  red: [255, 0, 0], green: [0, 128, 0], blue: [0, 0, 255], yellow: [255, 255, 0], cyan: [0, 255, 255], magenta: [255, 0, 255]
+};
+
+const RING = '██';
+const PARTICLE = '● ';
+const EMPTY = '  ';
+const BAR_WIDTH = 20;
+
+export function parseColor(color: string | undefined): RGB {
+  const hsl = /hsl\(\s*([\d.]+)\s*,\s*([\d.]+)%\s*,\s*([\d.]+)%/.exec(color || '');
+  if (hsl) return hslToRgb(Number(hsl[1]), Number(hsl[2]) / 100, Number(hsl[3]) / 100);
+  
+  const hex = /^#([0-9a-f]{6})$/i.exec(color || '');
+  if (hex) return [0, 2, 4].map(i => parseInt(hex[1].slice(i, i + 2), 16)) as RGB;
+  
+  return NAMED[(color || '').toLowerCase()] || NAMED.gray;
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): RGB {
+  const a = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return Math.round(255 * (lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  
+  return [channel(0), channel(8), channel(4)];
+}
+
+// Best guess from the environment: NO_COLOR and pipes get plain text
+export function detectColorMode(stream: NodeJS.WriteStream = process.stdout): ColorMode {
+  if (process.env.NO_COLOR !== undefined || !stream.isTTY) return 'none';
+  return /truecolor|24bit/i.test(process.env.COLORTERM || '') ? 'truecolor' : '16';
+}
+
+export class TerminalRenderer {
+  private readonly svg: SVGRenderer;
+  private readonly colors: ColorMode;
+  private readonly size: number;
+  
+  constructor(options: TerminalOptions = {}) {
+    this.svg = new SVGRenderer(options.theme);
+    this.colors = options.colors ?? detectColorMode();
+    this.size = options.size ?? 21;
+  }
+  
+  render(manifest: OrganismManifest, memory: OrganismMemory): string {
+    const resonance = this.svg.resonance(manifest, memory);
+    const radius = this.svg.radius(manifest, memory);
+    const ringColor = parseColor(this.svg.color(resonance));
+    
+    // Same geometry as mind.svg (a 100×100 box around 50,50), shrunk to fit the grid
+    const mutations = manifest.state.mutations || [];
+    const extent = Math.max(radius, 40, ...mutations.map(m => 30 + m.strength * 10)) + 3;
+    const unit = extent / ((this.size - 1) / 2);
+    const center = (this.size - 1) / 2;
+    const grid: Cell[][] = Array.from({ length: this.size }, () =>
+      Array.from({ length: this.size }, () => ({ text: EMPTY }))
+    );
+    
+    const put = (x: number, y: number, cell: Cell) => {
+      const col = Math.round(center + x / unit);
+      const row = Math.round(center + y / unit);
+      if (row >= 0 && row < this.size && col >= 0 && col < this.size) grid[row][col] = cell;
+    };
+    
+    // Core ring, dimmed when the organism is not itself
+    const ring: Cell = { text: RING, color: manifest.state.self ? ringColor : ringColor.map(c => Math.round(c / 2)) as RGB };
+    grid.forEach((line, row) => line.forEach((_, col) => {
+      const distance = Math.hypot(col - center, row - center) * unit;
+      if (Math.abs(distance - radius) <= unit / 2) line[col] = ring;
+    }));
+    
+    // Recent events, at 40 units as in the SVG
+    manifest.events.slice(-5).forEach((event, i) => {
+      const angle = (i / 5) * Math.PI * 2 - Math.PI / 2;
+      const symbol = this.svg.theme.events[event] || this.svg.theme.unknownEvent;
+      put(Math.cos(angle) * 40, Math.sin(angle) * 40, { text: symbol });
+    });
+    
+    mutations.forEach((mutation, i) => {
+      const angle = (i / mutations.length) * Math.PI * 2;
+      const distance = 30 + mutation.strength * 10;
+      put(Math.cos(angle) * distance, Math.sin(angle) * distance, { text: PARTICLE, color: parseColor(mutation.color) });
+    });
+    
+    // The central glyph may be several emoji wide; it spreads over that many cells
+    const glyph = [...this.svg.glyph(manifest, resonance)].filter(char => !/[\u{FE0F}\u{200D}]/u.test(char));
+    glyph.forEach((char, i) => {
+      grid[Math.round(center)][Math.round(center) - Math.floor(glyph.length / 2) + i] = { text: char };
+    });
+    
+    const picture = grid.map(line => line.map(cell => this.paint(cell)).join('').replace(/\s+$/, ''));
+    
+    return [
+      ...picture,
+      '',
+      `${manifest.name} v${manifest.version} · ${memory.evolution_trajectory.current_state}`,
+      `🌊 resonance  ${this.bar(resonance, ringColor)} ${resonance.toFixed(2)}`,
+      `⚡ energy     ${this.bar(memory.evolution_trajectory.energy_level, [255, 200, 0])} ${memory.evolution_trajectory.energy_level.toFixed(2)}`,
+      `🧬 generation ${this.bar(this.generationFill(memory.generation), [120, 120, 255])} ${memory.generation}`,
+      `🧪 mutations  ${mutations.length}${memory.probation?.length ? ` (${memory.probation.length} on probation)` : ''}`
+    ].join('\n');
+  }
+  
+  // Generations fill the bar a decade at a time, so growth stays visible
+  private generationFill(generation: number): number {
+    if (generation === 0) return 0;
+    const decade = Math.pow(10, Math.ceil(Math.log10(generation + 1)));
+    return generation / decade;
+  }
+  
+  private bar(fraction: number, color: RGB): string {
+    const filled = Math.round(Math.min(1, Math.max(0, fraction)) * BAR_WIDTH);
+    return `▕${this.paint({ text: '█'.repeat(filled), color })}${'░'.repeat(BAR_WIDTH - filled)}▏`;
+  }
+  
+  private paint(cell: Cell): string {
+    if (!cell.color || this.colors === 'none') return cell.text;
+    
+    const [r, g, b] = cell.color;
+    if (this.colors === 'truecolor') return `\x1b[38;2;${r};${g};${b}m${cell.text}${RESET}`;
+    
+    const nearest = ANSI_16.reduce((best, candidate, i) =>
+      this.distance(candidate, cell.color!) < this.distance(ANSI_16[best], cell.color!) ? i : best, 0);
+    return `\x1b[${nearest < 8 ? 30 + nearest : 82 + nearest}m${cell.text}${RESET}`;
+  }
+  
+  private distance(a: RGB, b: RGB): number {
+    return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+  }
+}
+
+// CLI usage
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => {
+    const i = args.indexOf(`--${name}`);
+    return i >= 0 ? args.splice(i, 2)[1] : undefined;
+  };
+  
+  const colors = flag('colors');
+  const theme = flag('theme');
+  if (colors !== undefined && !['truecolor', '16', 'none'].includes(colors)) {
+    console.error('Usage: ts-node terminal-renderer.ts [organism dir] [--colors truecolor|16|none] [--theme name]');
+    process.exit(1);
+  }
+  
+  const [dir = path.join(__dirname, '..', 'agent⟁')] = args;
+  const manifest = schemas.load('manifest', path.join(dir, 'manifest.yaml')).data;
+  const memory = schemas.load('memory', path.join(dir, 'memory.json')).data;
+  
+  console.log(new TerminalRenderer({ colors: colors as ColorMode | undefined, theme }).render(manifest, memory));
+}
\ No newline at end of file
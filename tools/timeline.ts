@@ -0,0 +1,261 @@
+// ⏳ Timelines
+// Organism snapshots on orphan git branches, written with plumbing so the working branch, index and files never move
+//
+//   refs/heads/timeline/<name>   one commit per snapshot: memory.json, mind.svg, snapshot.json
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { TemporalLinkFile } from './schema';
+
+export type TimelineSnapshot = TemporalLinkFile['past'];
+
+export interface TimelineEntry {
+  commit: string;
+  timestamp: number;
+  message: string;
+  parents: string[];
+}
+
+export interface TimelineSummary {
+  name: string;
+  head: string;
+  snapshots: number;
+  latest: number;
+}
+
+const REF_PREFIX = 'refs/heads/timeline/';
+
+// Snapshots are the organism's doing, not whoever happens to be at the keyboard
+const IDENTITY = { name: 'fractal organism', email: 'organism@fractal.local' };
+
+export class TimelineStore {
+  constructor(readonly repoDir: string = process.cwd()) {}
+  
+  // Record one snapshot on top of the timeline, starting it as an orphan when it does not exist yet
+  record(name: string, snapshot: TimelineSnapshot, label: string = 'snapshot'): TimelineEntry {
+    const ref = this.ref(name);
+    const parent = this.head(name);
+    
+    const tree = this.tree({
+      'memory.json': JSON.stringify(snapshot.state, null, 2),
+      'mind.svg': snapshot.svg,
+      'snapshot.json': JSON.stringify({ timestamp: snapshot.timestamp, label, generation: snapshot.state.generation }, null, 2)
+    });
+    const message = `⏳ ${label} (generation ${snapshot.state.generation})`;
+    const commit = this.commit(tree, parent ? [parent] : [], message, snapshot.timestamp);
+    
+    this.advance(ref, commit, parent, `timeline: ${label}`);
+    return { commit, timestamp: snapshot.timestamp, message, parents: parent ? [parent] : [] };
+  }
+  
+  list(): TimelineSummary[] {
+    const refs = this.git(['for-each-ref', '--format=%(refname)%09%(objectname)', REF_PREFIX]).trim();
+    if (!refs) return [];
+    
+    return refs.split('\n').map(line => {
+      const [ref, head] = line.split('\t');
+      return {
+        name: ref.slice(REF_PREFIX.length),
+        head,
+        snapshots: Number(this.git(['rev-list', '--count', head]).trim()),
+        latest: Number(this.git(['log', '-1', '--format=%at', head]).trim()) * 1000
+      };
+    });
+  }
+  
+  // Newest first
+  entries(name: string): TimelineEntry[] {
+    const head = this.requireHead(name);
+    
+    return this.git(['log', '--format=%H%x09%at%x09%P%x09%s', head]).trim().split('\n').map(line => {
+      const [commit, seconds, parents, message] = line.split('\t');
+      return { commit, timestamp: Number(seconds) * 1000, message, parents: parents ? parents.split(' ') : [] };
+    });
+  }
+  
+  // Write a past snapshot into a scratch directory; `at` is a commit on the timeline or a count of steps back
+  checkout(name: string, at: string = '0', dir?: string): string {
+    const head = this.requireHead(name);
+    const commit = /^\d+$/.test(at)
+      ? this.git(['rev-parse', '--verify', `${head}~${at}^{commit}`]).trim()
+      : this.git(['rev-parse', '--verify', `${at}^{commit}`]).trim();
+    
+    if (!this.isAncestor(commit, head)) {
+      throw new Error(`${at} is not a snapshot on timeline ${name}`);
+    }
+    
+    const target = dir ?? fs.mkdtempSync(path.join(os.tmpdir(), `timeline-${name.replace(/\//g, '-')}-`));
+    if (fs.existsSync(target) && fs.readdirSync(target).length) {
+      throw new Error(`${target} is not empty - checkouts only go into scratch directories`);
+    }
+    fs.mkdirSync(target, { recursive: true });
+    
+    this.git(['ls-tree', '--name-only', commit]).trim().split('\n').forEach(file => {
+      fs.writeFileSync(path.join(target, file), this.git(['cat-file', 'blob', `${commit}:${file}`]));
+    });
+    return target;
+  }
+  
+  // Join another stream into this one. Existing commits are never rewritten: the result is a
+  // fast-forward or a new merge commit on top, carrying the newer of the two snapshots
+  merge(into: string, from: string): { commit: string; kind: 'up-to-date' | 'fast-forward' | 'merge' } {
+    const source = this.requireHead(from);
+    const target = this.head(into);
+    const ref = this.ref(into);
+    
+    if (target && this.isAncestor(source, target)) return { commit: target, kind: 'up-to-date' };
+    if (!target || this.isAncestor(target, source)) {
+      this.advance(ref, source, target, `timeline: fast-forward from ${from}`);
+      return { commit: source, kind: 'fast-forward' };
+    }
+    
+    const time = (commit: string) => Number(this.git(['log', '-1', '--format=%at', commit]).trim());
+    const newer = time(source) > time(target) ? source : target;
+    const tree = this.git(['rev-parse', `${newer}^{tree}`]).trim();
+    const commit = this.commit(tree, [target, source], `⏳ merge timeline ${from} into ${into}`, Math.max(time(source), time(target)) * 1000);
+    
+    this.advance(ref, commit, target, `timeline: merge ${from}`);
+    return { commit, kind: 'merge' };
+  }
+  
+  head(name: string): string | null {
+    const ref = this.ref(name);
+    try {
+      return this.git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]).trim() || null;
+    } catch {
+      return null;
+    }
+  }
+  
+  private requireHead(name: string): string {
+    const head = this.head(name);
+    if (!head) throw new Error(`No timeline ${name} (known: ${this.list().map(t => t.name).join(', ') || 'none'})`);
+    return head;
+  }
+  
+  private ref(name: string): string {
+    const ref = `${REF_PREFIX}${name}`;
+    try {
+      this.git(['check-ref-format', ref]);
+    } catch {
+      throw new Error(`${name} is not a valid timeline name`);
+    }
+    return ref;
+  }
+  
+  // Blobs and a tree straight into the object store - no index, no working tree
+  private tree(files: Record<string, string>): string {
+    const entries = Object.entries(files).map(([file, content]) => {
+      const blob = this.git(['hash-object', '-w', '--stdin'], content).trim();
+      return `100644 blob ${blob}\t${file}`;
+    });
+    
+    return this.git(['mktree'], entries.join('\n') + '\n').trim();
+  }
+  
+  private commit(tree: string, parents: string[], message: string, timestamp: number): string {
+    const date = `@${Math.floor(timestamp / 1000)} +0000`;
+    const args = ['commit-tree', tree, ...parents.flatMap(parent => ['-p', parent]), '-m', message];
+    
+    return this.git(args, undefined, {
+      GIT_AUTHOR_NAME: IDENTITY.name,
+      GIT_AUTHOR_EMAIL: IDENTITY.email,
+      GIT_AUTHOR_DATE: date,
+      GIT_COMMITTER_NAME: IDENTITY.name,
+      GIT_COMMITTER_EMAIL: IDENTITY.email,
+      GIT_COMMITTER_DATE: date
+    }).trim();
+  }
+  
+  // Compare-and-swap: if the timeline moved since we read it, fail rather than drop someone's snapshot
+  private advance(ref: string, commit: string, expected: string | null, reason: string): void {
+    this.git(['update-ref', '-m', reason, ref, commit, expected ?? '']);
+  }
+  
+  private isAncestor(commit: string, of: string): boolean {
+    try {
+      this.git(['merge-base', '--is-ancestor', commit, of]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+  
+  private git(args: string[], input?: string, env: Record<string, string> = {}): string {
+    return execFileSync('git', args, {
+      cwd: this.repoDir,
+      input,
+      env: { ...process.env, ...env },
+      encoding: 'utf8',
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+  }
+}
+
+export const timelines = new TimelineStore();
+
+// CLI usage
+if (require.main === module) {
+  const [command, ...args] = process.argv.slice(2);
+  const store = new TimelineStore(path.join(__dirname, '..'));
+  const organismDir = path.join(__dirname, '..', 'agent⟁');
+  
+  const usage = () => {
+    console.error('Usage: ts-node timeline.ts <command>');
+    console.error('  list                          timelines and how many snapshots each holds');
+    console.error('  log <name>                    snapshots on a timeline, newest first');
+    console.error('  record <name> [label]         snapshot agent⟁/ onto a timeline');
+    console.error('  checkout <name> [at] [dir]    write a snapshot into a scratch directory (at: commit or steps back)');
+    console.error('  merge <into> <from>           join two timelines without rewriting either');
+    process.exit(1);
+  };
+  
+  try {
+    switch (command) {
+      case 'list':
+        store.list().forEach(t => {
+          console.log(`⏳ ${t.name.padEnd(20)} ${String(t.snapshots).padStart(4)} snapshots  latest ${new Date(t.latest).toISOString()}  ${t.head.slice(0, 10)}`);
+        });
+        break;
+      
+      case 'log':
+        if (!args[0]) usage();
+        store.entries(args[0]).forEach(e => {
+          const merge = e.parents.length > 1 ? ' (merge)' : '';
+          console.log(`${e.commit.slice(0, 10)}  ${new Date(e.timestamp).toISOString()}  ${e.message}${merge}`);
+        });
+        break;
+      
+      case 'record': {
+        if (!args[0]) usage();
+        const memory = JSON.parse(fs.readFileSync(path.join(organismDir, 'memory.json'), 'utf8'));
+        const svg = fs.readFileSync(path.join(organismDir, 'mind.svg'), 'utf8');
+        const entry = store.record(args[0], { timestamp: Date.now(), state: memory, svg }, args[1]);
+        console.log(`${entry.message} → timeline/${args[0]} ${entry.commit.slice(0, 10)}`);
+        break;
+      }
+      
+      case 'checkout': {
+        if (!args[0]) usage();
+        const dir = store.checkout(args[0], args[1], args[2]);
+        console.log(`📂 timeline/${args[0]}${args[1] ? ` @ ${args[1]}` : ''} → ${dir}`);
+        break;
+      }
+      
+      case 'merge': {
+        if (!args[0] || !args[1]) usage();
+        const { commit, kind } = store.merge(args[0], args[1]);
+        console.log(`🔀 ${args[1]} → ${args[0]}: ${kind} ${commit.slice(0, 10)}`);
+        break;
+      }
+      
+      default:
+        usage();
+    }
+  } catch (e) {
+    console.error(`❌ ${(e as Error).message}`);
+    process.exit(1);
+  }
+}
\ No newline at end of file
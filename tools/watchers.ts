@@ -0,0 +1,342 @@
+// 👀 Watcher Engine
+// Runs the observability.watchers from 🧬.observable.yaml: file changes → trigger handlers
+
+import * as yaml from 'js-yaml';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { writeFileAtomic } from './atomic';
+import { schemas } from './schema';
+import { YAMLtoSVGGenerator } from './yaml-to-svg';
+import { SVGRenderer } from './svg-renderer';
+import { SVGtoASTParser } from './svg-to-ast';
+import { SVGtoYAMLExtractor } from './svg-to-yaml';
+import { OrganismInbox } from './inbox';
+
+export interface WatcherConfig {
+  target: string; // Glob relative to the organism root; without a slash it matches a file name anywhere
+  trigger: string;
+  description?: string;
+  debounce?: number; // Quiet period in ms before the trigger fires
+}
+
+export interface WatcherChange {
+  watcher: WatcherConfig;
+  files: string[]; // Absolute paths; a file that was removed no longer exists
+}
+
+export type WatcherHandler = (change: WatcherChange, engine: WatcherEngine) => Promise<void> | void;
+
+export interface WatcherOptions {
+  debounce?: number;
+  handlers?: WatcherHandlerRegistry;
+  log?: (line: string) => void;
+}
+
+export class WatcherHandlerRegistry {
+  private handlers = new Map<string, WatcherHandler>();
+  
+  register(trigger: string, handler: WatcherHandler, options: { replace?: boolean } = {}): void {
+    if (this.handlers.has(trigger) && !options.replace) {
+      throw new Error(`Watcher trigger ${trigger} is already registered`);
+    }
+    this.handlers.set(trigger, handler);
+  }
+  
+  has(trigger: string): boolean {
+    return this.handlers.has(trigger);
+  }
+  
+  get(trigger: string): WatcherHandler {
+    const handler = this.handlers.get(trigger);
+    if (!handler) {
+      throw new Error(`Unknown watcher trigger ${trigger} (known: ${this.triggers().join(', ')})`);
+    }
+    return handler;
+  }
+  
+  triggers(): string[] {
+    return [...this.handlers.keys()];
+  }
+}
+
+export const watcherHandlers = new WatcherHandlerRegistry();
+
+// Never descended into while looking for targets
+const IGNORED_DIRS = ['node_modules', '.git'];
+
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  
+  return new RegExp(`^${source}$`, 'u');
+}
+
+export class WatcherEngine {
+  static readonly DEFAULT_DEBOUNCE = 250;
+  
+  private readonly handlers: WatcherHandlerRegistry;
+  private readonly matchers: Array<{ watcher: WatcherConfig; pattern: RegExp; basename: boolean }>;
+  private readonly log: (line: string) => void;
+  private dirWatchers = new Map<string, fs.FSWatcher>();
+  private pending = new Map<WatcherConfig, { files: Set<string>; timer: NodeJS.Timeout }>();
+  // Last content hash per file - changes to what we already know never fire
+  private seen = new Map<string, string | null>();
+  private queue: Promise<void> = Promise.resolve();
+  
+  constructor(
+    readonly root: string,
+    readonly watchers: WatcherConfig[],
+    private readonly options: WatcherOptions = {}
+  ) {
+    this.handlers = options.handlers || watcherHandlers;
+    this.log = options.log || (line => console.log(line));
+    
+    // Fail on startup rather than on the first change
+    watchers.forEach(watcher => this.handlers.get(watcher.trigger));
+    
+    this.matchers = watchers.map(watcher => ({
+      watcher,
+      pattern: globToRegExp(watcher.target),
+      basename: !watcher.target.includes('/')
+    }));
+  }
+  
+  // Watchers from the observability section of 🧬.observable.yaml
+  static watchersFrom(root: string): WatcherConfig[] {
+    const configPath = path.join(root, '🧬.observable.yaml');
+    if (!fs.existsSync(configPath)) return [];
+    
+    const config = schemas.load('observable', configPath).data;
+    const watchers = config.observability?.watchers || [];
+    
+    return watchers.map(({ target, trigger, description, debounce }, i) => {
+      if (typeof target !== 'string' || typeof trigger !== 'string') {
+        throw new Error(`🧬.observable.yaml: observability.watchers[${i}] needs a target and a trigger`);
+      }
+      if (typeof debounce !== 'undefined' && (typeof debounce !== 'number' || debounce < 0)) {
+        throw new Error(`🧬.observable.yaml: observability.watchers[${i}].debounce must be a non-negative number`);
+      }
+      if (typeof description !== 'undefined' && typeof description !== 'string') {
+        throw new Error(`🧬.observable.yaml: observability.watchers[${i}].description must be text`);
+      }
+      return { target, trigger, description, debounce };
+    });
+  }
+  
+  static fromOrganism(root: string, options: WatcherOptions = {}): WatcherEngine {
+    return new WatcherEngine(root, WatcherEngine.watchersFrom(root), options);
+  }
+  
+  start(): void {
+    this.watchTree(this.root);
+    this.log(`👀 Watching ${this.watchers.length} targets under ${this.root}`);
+  }
+  
+  stop(): void {
+    this.dirWatchers.forEach(watcher => watcher.close());
+    this.dirWatchers.clear();
+    this.pending.forEach(({ timer }) => clearTimeout(timer));
+    this.pending.clear();
+  }
+  
+  // Resolves once every change seen so far has been handled
+  idle(): Promise<void> {
+    return this.queue;
+  }
+  
+  // Watchers whose target covers a path relative to the root
+  matching(relative: string): WatcherConfig[] {
+    const normalized = relative.split(path.sep).join('/');
+    
+    return this.matchers
+      .filter(({ pattern, basename }) => pattern.test(basename ? path.posix.basename(normalized) : normalized))
+      .map(({ watcher }) => watcher);
+  }
+  
+  // Write on behalf of a handler; our own writes are remembered so they don't retrigger anything
+  write(file: string, content: string): boolean {
+    if (fs.existsSync(file) && fs.readFileSync(file, 'utf8') === content) return false;
+    
+    writeFileAtomic(file, content);
+    this.seen.set(file, this.hash(content));
+    return true;
+  }
+  
+  // Directories come and go under a watch (temp dirs, dist/ mid-build, clean): one that is gone
+  // before we get to it is skipped, not fatal
+  private watchTree(dir: string): void {
+    if (this.dirWatchers.has(dir)) return;
+    
+    try {
+      const entries = fs.readdirSync(dir, { withFileTypes: true });
+      const watcher = fs.watch(dir, (_, filename) => {
+        if (filename) this.changed(path.join(dir, filename.toString()));
+      });
+      watcher.on('error', () => this.unwatch(dir));
+      this.dirWatchers.set(dir, watcher);
+      
+      entries.forEach(entry => {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory() && !entry.name.startsWith('.') && !IGNORED_DIRS.includes(entry.name)) {
+          this.watchTree(full);
+        } else if (entry.isFile() && this.matching(path.relative(this.root, full)).length) {
+          this.seen.set(full, this.read(full));
+        }
+      });
+    } catch (e) {
+      this.unwatch(dir);
+      const code = (e as NodeJS.ErrnoException).code;
+      if (code !== 'ENOENT' && code !== 'ENOTDIR') this.log(`⚠️ Not watching ${path.relative(this.root, dir)}: ${(e as Error).message}`);
+    }
+  }
+  
+  // Close the watchers on a directory and everything below it
+  private unwatch(dir: string): void {
+    this.dirWatchers.forEach((watcher, watched) => {
+      if (watched !== dir && !watched.startsWith(dir + path.sep)) return;
+      watcher.close();
+      this.dirWatchers.delete(watched);
+    });
+  }
+  
+  private changed(file: string): void {
+    // Dotfiles are atomic-write temps, pid files and mailboxes
+    if (path.basename(file).startsWith('.')) return;
+    
+    const stat = fs.statSync(file, { throwIfNoEntry: false });
+    if (!stat) this.unwatch(file);
+    if (stat?.isDirectory()) {
+      if (!IGNORED_DIRS.includes(path.basename(file))) this.watchTree(file);
+      return;
+    }
+    
+    this.matching(path.relative(this.root, file)).forEach(watcher => {
+      const pending = this.pending.get(watcher);
+      if (pending) clearTimeout(pending.timer);
+      
+      const files = pending?.files || new Set<string>();
+      files.add(file);
+      
+      const delay = watcher.debounce ?? this.options.debounce ?? WatcherEngine.DEFAULT_DEBOUNCE;
+      this.pending.set(watcher, { files, timer: setTimeout(() => this.fire(watcher), delay) });
+    });
+  }
+  
+  private fire(watcher: WatcherConfig): void {
+    const pending = this.pending.get(watcher);
+    this.pending.delete(watcher);
+    if (!pending) return;
+    
+    // Handlers run one at a time, so one's writes are known before the next reads
+    this.queue = this.queue.then(async () => {
+      const files = [...pending.files].filter(file => {
+        const current = this.read(file);
+        if (this.seen.get(file) === current) return false;
+        this.seen.set(file, current);
+        return true;
+      });
+      if (files.length === 0) return;
+      
+      this.log(`👀 ${watcher.trigger} ← ${files.map(file => path.relative(this.root, file)).join(', ')}`);
+      try {
+        await this.handlers.get(watcher.trigger)({ watcher, files }, this);
+      } catch (e) {
+        this.log(`⚠️ ${watcher.trigger} failed: ${(e as Error).message}`);
+      }
+    });
+  }
+  
+  private read(file: string): string | null {
+    try {
+      return this.hash(fs.readFileSync(file, 'utf8'));
+    } catch {
+      return null; // Removed, or mid-rename
+    }
+  }
+  
+  private hash(content: string): string {
+    return createHash('sha1').update(content).digest('hex');
+  }
+}
+
+// Organism directories touched by a change: wherever a manifest and memory sit side by side
+const organismDirs = (files: string[]) => [...new Set(files.map(file => path.dirname(file)))]
+  .filter(dir => fs.existsSync(path.join(dir, 'manifest.yaml')) && fs.existsSync(path.join(dir, 'memory.json')));
+
+// Built-in triggers
+watcherHandlers.register('yaml-to-svg-sync', (change, engine) => {
+  const output = SVGRenderer.outputFrom(engine.root);
+  
+  organismDirs(change.files).forEach(dir => {
+    const svgPath = path.join(dir, 'mind.svg');
+    const svg = new YAMLtoSVGGenerator(path.join(dir, 'manifest.yaml'), path.join(dir, 'memory.json'), output.theme).generateSVG();
+    
+    if (output.backup) SVGRenderer.backup(svgPath, svg, output.retention);
+    if (engine.write(svgPath, svg)) {
+      console.log(`🔄 ${path.relative(engine.root, svgPath)} regenerated`);
+    }
+  });
+});
+
+watcherHandlers.register('svg-mutation-detection', (change, engine) => {
+  change.files
+    .filter(file => fs.existsSync(file))
+    .forEach(file => {
+      const dir = path.dirname(file);
+      if (!organismDirs([file]).length) return;
+      
+      const manifestPath = path.join(dir, 'manifest.yaml');
+      const manifest = schemas.load('manifest', manifestPath).data;
+      const memory = schemas.load('memory', path.join(dir, 'memory.json')).data;
+      const updated = new SVGtoYAMLExtractor(SVGtoASTParser.parseFile(file), memory).applyTo(manifest);
+      
+      schemas.parse('manifest', updated, manifestPath);
+      if (engine.write(manifestPath, yaml.dump(updated))) {
+        console.log(`📥 ${path.relative(engine.root, file)} → ${path.relative(engine.root, manifestPath)}`);
+      }
+    });
+});
+
+watcherHandlers.register('behavior-to-structure-feedback', (change, engine) => {
+  // New behavior is digested the way the organism digests anything of itself: by eating it
+  const inbox = new OrganismInbox(path.join(engine.root, 'agent⟁'));
+  const pid = inbox.runningPid();
+  
+  if (pid === null) {
+    console.log('💤 Organism is dormant; behavior changes will be digested on its next eatSelf');
+    return;
+  }
+  
+  inbox.post('eatSelf');
+  console.log(`📬 eatSelf posted to running organism (pid ${pid})`);
+});
+
+// CLI usage
+if (require.main === module) {
+  const [root = path.join(__dirname, '..')] = process.argv.slice(2);
+  
+  const engine = WatcherEngine.fromOrganism(path.resolve(root));
+  engine.start();
+  
+  const stop = () => {
+    engine.stop();
+    process.exit(0);
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+}
\ No newline at end of file